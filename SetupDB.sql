@@ -24,6 +24,20 @@ CREATE TABLE IF NOT EXISTS basics.contracts (
 	validana_version SMALLINT NOT NULL DEFAULT 1
 );
 
+CREATE TABLE IF NOT EXISTS basics.sequences (
+	/* Address of the sender. */
+	address VARCHAR(35) PRIMARY KEY NOT NULL,
+	/* The last sequence number used by the sender, by a transaction that was accepted or rejected. */
+	sequence BIGINT NOT NULL CHECK (sequence > 0)
+);
+
+CREATE TABLE IF NOT EXISTS basics.processor_keys (
+	/* The id of the first block signed with this key. */
+	from_block BIGINT PRIMARY KEY NOT NULL CHECK (from_block > 0),
+	/* The public key of the processor. */
+	public_key BYTEA NOT NULL CHECK (octet_length(public_key) = 33)
+);
+
 /* Add the smartcontract and smartcontractmanager roles. The node/processor user should have these roles. */
 DO $$ BEGIN
 	/* Smart contract can do everything in the public schema. */
@@ -46,6 +60,19 @@ GRANT SELECT ON TABLE information_schema.tables, information_schema.columns, inf
 	information_schema.constraint_column_usage, information_schema.constraint_table_usage, information_schema.check_constraints TO smartcontract;
 GRANT USAGE ON SCHEMA basics TO smartcontractmanager;
 GRANT SELECT, INSERT, DELETE ON TABLE basics.contracts TO smartcontractmanager;
+GRANT SELECT, INSERT, UPDATE ON TABLE basics.sequences TO smartcontractmanager;
+GRANT SELECT, INSERT, UPDATE ON TABLE basics.processor_keys TO smartcontractmanager;
+/*
+ * The processor and node record the status of transactions in basics.transactions, which is needed for transaction dependencies.
+ * They create this table during their own setup, so run this script again afterwards, otherwise they shut down on such transactions.
+ */
+DO $$ BEGIN
+	IF EXISTS (SELECT * FROM information_schema.tables WHERE table_schema = 'basics' AND table_name = 'transactions') THEN
+		GRANT SELECT (transaction_id, status) ON TABLE basics.transactions TO smartcontractmanager;
+	ELSE
+		RAISE WARNING 'basics.transactions does not exist yet, run this script again once it has been created.';
+	END IF;
+END $$;
 
 /*
  * Revoke everything they should not have access to (including the common non-deterministic functions).
@@ -0,0 +1,98 @@
+/* eslint-disable max-len */
+import * as FS from "fs";
+import * as OS from "os";
+import * as Path from "path";
+import { Block, BlockArchive, Crypto, PrivateKey, Transaction } from "../../index";
+
+describe("BlockArchive", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const tx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const chain: Block[] = [];
+	for (let i = 0; i < 6; i++) {
+		chain.push(Block.sign({ block_id: i, previous_block_hash: i === 0 ? Buffer.alloc(32) : chain[i - 1].getHash(prefix), processed_ts: 100 + i, transactions: i % 2 === 0 ? tx.data : Buffer.alloc(0), version: i < 3 ? 1 : 2 }, prefix, privateKey));
+	}
+	let directory: string;
+	let archive: BlockArchive;
+	let files = 0;
+	beforeAll(() => directory = FS.mkdtempSync(Path.join(OS.tmpdir(), "archive-")));
+	afterAll(() => FS.rmSync(directory, { recursive: true, force: true }));
+	beforeEach(() => archive = new BlockArchive(Path.join(directory, `blocks${files++}`)));
+
+	describe("Append", () => {
+		it("Empty", async () => expect(await archive.getLastBlockId()).toBeUndefined());
+		it("Empty", async () => expect(await archive.getFirstBlockId()).toBeUndefined());
+		it("Nothing", async () => { await archive.append([]); expect(FS.existsSync(archive.dataFile)).toBe(false); });
+		it("Index file", () => expect(archive.indexFile).toBe(`${archive.dataFile}.index`));
+		it("Single", async () => { await archive.append(chain.slice(0, 1)); expect(await archive.getLastBlockId()).toBe(0); });
+		it("Multiple times", async () => { await archive.append(chain.slice(0, 2)); await archive.append(chain.slice(2)); expect(await archive.getLastBlockId()).toBe(5); });
+		it("Data is merged blocks", async () => { await archive.append(chain.slice(0, 2)); await archive.append(chain.slice(2)); expect(FS.readFileSync(archive.dataFile)).toEqual(Block.merge(chain)); });
+		it("Index", async () => { await archive.append(chain.slice(0, 2)); expect(FS.readFileSync(archive.indexFile)).toEqual(Buffer.concat([Crypto.uLongToBinary(0), Crypto.uLongToBinary(0), Crypto.uLongToBinary(chain[0].data.length)])); });
+		it("Not starting at 0", async () => { await archive.append(chain.slice(3)); expect([await archive.getFirstBlockId(), await archive.getLastBlockId()]).toEqual([3, 5]); });
+		it("Gap", async () => { await archive.append(chain.slice(0, 2)); await expectAsync(archive.append(chain.slice(3))).toBeRejected(); });
+		it("Again", async () => { await archive.append(chain.slice(0, 2)); await expectAsync(archive.append(chain.slice(1))).toBeRejected(); });
+		it("Not consecutive", async () => await expectAsync(archive.append([chain[0], chain[2]])).toBeRejected());
+		it("Not a block", async () => await expectAsync(archive.append([{} as any])).toBeRejected());
+		it("Nothing written on error", async () => { await archive.append(chain.slice(0, 2)); await archive.append([chain[3]]).catch(() => undefined); expect(FS.readFileSync(archive.dataFile)).toEqual(Block.merge(chain.slice(0, 2))); });
+		it("After interrupted append", async () => {
+			await archive.append(chain.slice(0, 2));
+			FS.appendFileSync(archive.dataFile, chain[2].data.slice(0, 50));
+			FS.appendFileSync(archive.indexFile, Buffer.alloc(3));
+			await archive.append(chain.slice(2));
+			expect(FS.readFileSync(archive.dataFile)).toEqual(Block.merge(chain));
+			expect((await archive.verify(prefix, privateKey)).valid).toBe(true);
+		});
+	});
+
+	describe("Read", () => {
+		beforeEach(async () => archive.append(chain));
+		it("Single", async () => expect((await archive.read(2)).map((block) => block.data)).toEqual([chain[2].data]));
+		it("Range", async () => expect((await archive.read(1, 4)).map((block) => block.data)).toEqual(chain.slice(1, 5).map((block) => block.data)));
+		it("All", async () => expect((await archive.read(0, 5)).map((block) => block.data)).toEqual(chain.map((block) => block.data)));
+		it("Last", async () => expect((await archive.read(5)).map((block) => block.id)).toEqual([5]));
+		it("Not in archive", async () => await expectAsync(archive.read(6)).toBeRejected());
+		it("Not in archive", async () => await expectAsync(archive.read(-1, 1)).toBeRejected());
+		it("Invalid range", async () => await expectAsync(archive.read(3, 2)).toBeRejected());
+		it("Invalid range", async () => await expectAsync(archive.read(1.5)).toBeRejected());
+		it("Missing data", async () => { FS.truncateSync(archive.dataFile, 10); await expectAsync(archive.read(0)).toBeRejected(); });
+		it("Not starting at 0", async () => { const other = new BlockArchive(`${archive.dataFile}-other`); await other.append(chain.slice(3)); expect((await other.read(4)).map((block) => block.id)).toEqual([4]); await expectAsync(other.read(2)).toBeRejected(); });
+	});
+
+	describe("Verify", () => {
+		beforeEach(async () => archive.append(chain));
+		it("Valid", async () => expect(await archive.verify(prefix, privateKey)).toEqual({ valid: true, blocks: 6, transactions: 3, lastBlockId: 5 }));
+		it("Empty", async () => expect((await new BlockArchive(`${archive.dataFile}-other`).verify(prefix, privateKey)).blocks).toBe(0));
+		it("Not starting at 0", async () => { const other = new BlockArchive(`${archive.dataFile}-other`); await other.append(chain.slice(3)); expect((await other.verify(prefix, privateKey, chain[2])).blocks).toBe(3); });
+		it("Other key", async () => expect((await archive.verify(prefix, PrivateKey.generate())).valid).toBe(false));
+		it("Changed data", async () => {
+			const data = FS.readFileSync(archive.dataFile);
+			data[Block.merge(chain.slice(0, 4)).length + 60] ^= 1;
+			FS.writeFileSync(archive.dataFile, data);
+			expect((await archive.verify(prefix, privateKey)).failure).toEqual(jasmine.objectContaining({ blockId: 4, offset: Block.merge(chain.slice(0, 4)).length }));
+		});
+		it("Changed index", async () => {
+			const index = FS.readFileSync(archive.indexFile);
+			Crypto.uLongToBinary(Crypto.binaryToULong(index.slice(32, 40)) + 1).copy(index, 32);
+			FS.writeFileSync(archive.indexFile, index);
+			expect((await archive.verify(prefix, privateKey)).failure).toEqual({ reason: "Index does not match the data file.", blockId: undefined, offset: Block.merge(chain.slice(0, 3)).length });
+		});
+		it("Missing data", async () => { FS.truncateSync(archive.dataFile, Block.merge(chain.slice(0, 5)).length); expect((await archive.verify(prefix, privateKey)).valid).toBe(false); });
+		it("Missing index", async () => { FS.truncateSync(archive.indexFile, 8 + 5 * 8); expect(await archive.verify(prefix, privateKey)).toEqual({ valid: true, blocks: 5, transactions: 3, lastBlockId: 4 }); });
+		it("Interrupted append", async () => { FS.appendFileSync(archive.dataFile, chain[2].data.slice(0, 50)); FS.appendFileSync(archive.indexFile, Buffer.alloc(3)); expect((await archive.verify(prefix, privateKey)).valid).toBe(true); });
+		it("Missing data file", async () => { FS.unlinkSync(archive.dataFile); expect((await archive.verify(prefix, privateKey)).valid).toBe(false); });
+	});
+
+	describe("Truncate", () => {
+		beforeEach(async () => archive.append(chain));
+		it("Keep some", async () => { await archive.truncate(3); expect(await archive.getLastBlockId()).toBe(3); });
+		it("Keep some data", async () => { await archive.truncate(3); expect(FS.readFileSync(archive.dataFile)).toEqual(Block.merge(chain.slice(0, 4))); });
+		it("Keep all", async () => { await archive.truncate(5); expect(FS.readFileSync(archive.dataFile)).toEqual(Block.merge(chain)); });
+		it("Remove all", async () => { await archive.truncate(-1); expect(await archive.getLastBlockId()).toBeUndefined(); });
+		it("Interrupted truncate", async () => { FS.truncateSync(archive.indexFile, 8 + 4 * 8); expect(await archive.verify(prefix, privateKey)).toEqual({ valid: true, blocks: 4, transactions: 2, lastBlockId: 3 }); });
+		it("Append after", async () => { await archive.truncate(1); await archive.append(chain.slice(2)); expect(await archive.verify(prefix, privateKey)).toEqual({ valid: true, blocks: 6, transactions: 3, lastBlockId: 5 }); });
+		it("Append other start after removing all", async () => { await archive.truncate(-1); await archive.append(chain.slice(4)); expect(await archive.getFirstBlockId()).toBe(4); });
+		it("Not in archive", async () => await expectAsync(archive.truncate(6)).toBeRejected());
+		it("Not in archive", async () => await expectAsync(archive.truncate(-2)).toBeRejected());
+		it("Invalid", async () => await expectAsync(archive.truncate(NaN)).toBeRejected());
+	});
+});
\ No newline at end of file
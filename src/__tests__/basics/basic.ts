@@ -1,9 +1,10 @@
 /* eslint-disable max-len, no-console */
 import { Basic, ProcessTxResult, DatabaseClient, CreatePayload, TxStatus, Contract } from "../../basics/basic";
-import { DBTransaction, Transaction } from "../../basics/transaction";
+import { DBTransaction, Transaction, PayloadEncoding } from "../../basics/transaction";
 import { Crypto } from "../../tools/crypto";
 import { QueryResult, Client, types } from "pg";
-import { PrivateKey } from "../../basics/key";
+import { PrivateKey, PublicKey } from "../../basics/key";
+import { ProcessorKeys } from "../../basics/rotation";
 import { Log } from "../../tools/log";
 import { readFileSync } from "fs";
 import { Sandbox } from "../../basics/sandbox";
@@ -20,14 +21,14 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 
 	//Helper class for executing tests
 	class BasicTest extends Basic {
-		constructor(dbClient?: DatabaseClient, prefix?: Buffer) {
+		constructor(dbClient?: DatabaseClient, prefix?: Buffer, canonicalPayloads?: boolean) {
 			super(dbClient !== undefined ? dbClient : {
 				user: testUser,
 				database: testdbName,
 				password: testPassword,
 				port: 5432,
 				host: "localhost"
-			}, prefix);
+			}, prefix, undefined, canonicalPayloads);
 		}
 
 		public connect(): Promise<boolean> {
@@ -38,6 +39,10 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 			return super.loadSmartContracts();
 		}
 
+		public loadProcessorKeys(initialKey: PublicKey): Promise<ProcessorKeys> {
+			return super.loadProcessorKeys(initialKey);
+		}
+
 		public query(query: string, params: any[], name?: string): Promise<QueryResult> {
 			return super.query(query, params, name);
 		}
@@ -121,7 +126,13 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 					`	GRANT CONNECT ON DATABASE ${testdbName} TO ${testUser}; ` +
 					`	ALTER ROLE ${testUser} CONNECTION LIMIT -1; ` +
 					`END $$;` +
-					`DELETE FROM basics.contracts;`;
+					`DELETE FROM basics.contracts;` +
+					`DELETE FROM basics.processor_keys;` +
+					//The processor and node record the status of transactions, which is needed for dependencies.
+					`CREATE TABLE IF NOT EXISTS basics.transactions (transaction_id BYTEA PRIMARY KEY, status VARCHAR(8) NOT NULL);` +
+					`GRANT SELECT ON TABLE basics.transactions TO smartcontractmanager;` +
+					`GRANT ALL PRIVILEGES ON TABLE basics.transactions TO ${testUser};` +
+					`DELETE FROM basics.transactions;`;
 				await setupClient.query(setupUserScript);
 				const rows = (await setupClient.query("SELECT table_name FROM information_schema.tables WHERE table_schema = 'public';", [])).rows;
 				for (const row of rows) {
@@ -161,6 +172,120 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 				})))).toEqual({ status: TxStatus.Invalid, message: "Transaction valid till expired." });
 				done();
 			});
+			it("not yet valid", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 3, valid_from: 12340679
+				})))).toEqual({ status: "retry", message: "" });
+				done();
+			});
+			it("block not yet reached", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 3, valid_from_block: 11
+				})))).toEqual({ status: "retry", message: "" });
+				done();
+			});
+			it("block expired", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 3, valid_till_block: 9
+				})))).toEqual({ status: TxStatus.Invalid, message: "Transaction valid till block expired." });
+				done();
+			});
+			it("within validity window", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 3, valid_from: 12340678, valid_from_block: 10, valid_till_block: 10, payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("sequence not reached", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 4, sequence: 2
+				})))).toEqual({ status: "retry", message: "" });
+				done();
+			});
+			it("sequence already used", async (done) => {
+				await basic.processTx(Object.assign({}, tx, { version: 4, sequence: 1 }));
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 4, sequence: 1, transaction_id: Transaction.generateId()
+				})))).toEqual({ status: TxStatus.Invalid, message: "Transaction sequence number already used." });
+				done();
+			});
+			it("sequence not used by invalid transaction", async (done) => {
+				await basic.processTx(Object.assign({}, tx, { version: 4, sequence: 1, payload: JSON.stringify({ extrakey: "" }) }));
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 4, sequence: 1, transaction_id: Transaction.generateId(), payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("next sequence", async (done) => {
+				await basic.processTx(Object.assign({}, tx, { version: 4, sequence: 1 }));
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 4, sequence: 2, transaction_id: Transaction.generateId(), payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("dependency not processed", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 5, dependencies: [Transaction.generateId()]
+				})))).toEqual({ status: "retry", message: "" });
+				done();
+			});
+			it("dependency rejected", async (done) => {
+				const accepted = Transaction.generateId();
+				const rejected = Transaction.generateId();
+				await basic.query("RESET ROLE;", []);
+				await basic.query("INSERT INTO basics.transactions (transaction_id, status) VALUES ($1, 'accepted'), ($2, 'rejected');", [accepted, rejected]);
+				await basic.query("SET LOCAL ROLE smartcontract;", []);
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 5, dependencies: [accepted, rejected]
+				})))).toEqual({ status: TxStatus.Invalid, message: "Transaction dependency not accepted." });
+				done();
+			});
+			it("dependency accepted", async (done) => {
+				const accepted = Transaction.generateId();
+				await basic.query("RESET ROLE;", []);
+				await basic.query("INSERT INTO basics.transactions (transaction_id, status) VALUES ($1, 'accepted');", [accepted]);
+				await basic.query("SET LOCAL ROLE smartcontract;", []);
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 5, dependencies: [accepted], payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("decompressed payload too large", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 6, payload_encoding: PayloadEncoding.Deflate, payload: " ".repeat(Transaction.maxDecodedPayloadLength + 1)
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload too large." });
+				done();
+			});
+			it("compressed payload", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 6, payload_encoding: PayloadEncoding.Deflate, payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("missing sponsor signature", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 7, sponsored: true
+				})))).toEqual({ status: TxStatus.Invalid, message: "Missing sponsor signature." });
+				done();
+			});
+			it("sponsored", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					version: 7, sponsored: true, sponsor_signature: Buffer.alloc(64), sponsor_public_key: tx.public_key, payload: JSON.stringify({ extrakey: "" })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
+			it("canonical payload", async (done) => {
+				expect((await new BasicTest(undefined, Buffer.from("bla"), true).processTx(Object.assign({}, tx, {
+					payload: '{ "extrakey": "" }'
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload is not canonical json." });
+				done();
+			});
+			it("canonical payload not required", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: '{ "extrakey": "" }'
+				})))).toEqual({ status: TxStatus.Invalid, message: "Payload has extra key." });
+				done();
+			});
 			it("payload array", async (done) => {
 				expect((await basic.processTx(Object.assign({}, tx, {
 					payload: JSON.stringify([])
@@ -234,7 +359,7 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 			it("validana version", async (done) => {
 				expect((await basic.processTx(Object.assign({}, tx, {
 					payload: JSON.stringify(Object.assign({}, payload, {
-						validanaVersion: 3
+						validanaVersion: 4
 					}))
 				})))).toEqual({ status: TxStatus.Invalid, message: "Unsupported contract version" });
 				done();
@@ -295,6 +420,147 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid values: asdf" });
 				done();
 			});
+			it("template constraint for older version", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "int", desc: "a", name: "a", minimum: 1 } }
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid values: asdf" });
+				done();
+			});
+			it("template constraint for wrong type", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "bool", desc: "a", name: "a", minimum: 1 } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template minimum above maximum", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "int", desc: "a", name: "a", minimum: 2, maximum: 1 } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template negative length", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", maxLength: -1 } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template max items for non-array", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", maxItems: 2 } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template empty enum", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", enum: [] } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template invalid pattern", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", maxLength: 8, pattern: "[" } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid pattern: asdf" });
+				done();
+			});
+			it("template pattern without max length", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", pattern: "^[a-z]*$" } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
+			it("template unsafe pattern", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "str", desc: "a", name: "a", maxLength: 64, pattern: "^(a+)+$" } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has unsafe pattern: asdf" });
+				done();
+			});
+			it("template object for older version", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "obj", desc: "a", name: "a", template: {} } }
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid values: asdf" });
+				done();
+			});
+			it("template object without template", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "obj", desc: "a", name: "a" } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid nested template: asdf" });
+				done();
+			});
+			it("template empty tuple", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "tuple", desc: "a", name: "a", items: [] } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid nested template: asdf" });
+				done();
+			});
+			it("template invalid nested key", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "obj", desc: "a", name: "a", template: { b: { type: "str", name: "b" } } } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid values: asdf.b" });
+				done();
+			});
+			it("template invalid tuple item", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "tuple", desc: "a", name: "a", items: [{ type: "str", name: "b", desc: "b", minimum: 1 }] } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf.0" });
+				done();
+			});
+			it("template scale for older version", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "decimal", desc: "a", name: "a", scale: 2 } }
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid values: asdf" });
+				done();
+			});
+			it("template scale for non-decimal", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: { asdf: { type: "bigint", desc: "a", name: "a", scale: 2 } },
+						validanaVersion: 3
+					}))
+				})))).toEqual({ status: TxStatus.Invalid, message: "Trying to create an invalid contract: template has invalid constraints: asdf" });
+				done();
+			});
 			it("no code and init", async (done) => {
 				expect((await basic.processTx(Object.assign({}, tx, {
 					payload: JSON.stringify(Object.assign({}, payload, {
@@ -391,6 +657,63 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 				}))).status).toBe("accepted");
 				done();
 			});
+			it("version 2 code declaring sponsor", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						code: Buffer.from("const sponsor = 1; return 'OK';").toString("base64")
+					}))
+				}))).status).toBe("accepted");
+				done();
+			});
+			it("version 3 code declaring sponsor", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						code: Buffer.from("const sponsor = 1; return 'OK';").toString("base64"),
+						validanaVersion: 3
+					}))
+				}))).status).toBe("invalid");
+				done();
+			});
+			it("template with constraints", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: {
+							a: { type: "uint", desc: "a", name: "a", minimum: 1, maximum: 10 },
+							b: { type: "strArray", desc: "b", name: "b", maxItems: 3, minLength: 1, maxLength: 8, pattern: "^[a-z]*$", enum: ["ab", "cd"] }
+						},
+						validanaVersion: 3
+					}))
+				}))).status).toBe("accepted");
+				done();
+			});
+			it("template with nested objects and tuples", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: {
+							a: { type: "objArray", desc: "a", name: "a", template: { b: { type: "uint", desc: "b", name: "b" } } },
+							c: { type: "tuple?", desc: "c", name: "c", items: [{ type: "str", desc: "d", name: "d" }, { type: "int", desc: "e", name: "e" }] }
+						},
+						validanaVersion: 3
+					}))
+				}))).status).toBe("accepted");
+				done();
+			});
+			it("template with version 3 types", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						template: {
+							a: { type: "bigint", desc: "a", name: "a", maxLength: 78 },
+							b: { type: "decimal", desc: "b", name: "b", scale: 2 },
+							c: { type: "timestamp?", desc: "c", name: "c" },
+							d: { type: "uuidArray", desc: "d", name: "d" },
+							e: { type: "url", desc: "e", name: "e", maxLength: 2048, pattern: "^https://" },
+							f: { type: "email", desc: "f", name: "f" }
+						},
+						validanaVersion: 3
+					}))
+				}))).status).toBe("accepted");
+				done();
+			});
 			it("validana version undefined", async (done) => {
 				expect((await basic.processTx(Object.assign({}, tx, {
 					payload: JSON.stringify(Object.assign({}, payload, {
@@ -560,6 +883,49 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 				})))).toEqual({ status: TxStatus.Accepted, message: "OK" });
 				done();
 			});
+			it("multi-signature from", async (done) => {
+				const contractCode = "return from.join();";
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						code: Buffer.from(contractCode).toString("base64"),
+						validanaVersion: 3
+					}))
+				}))).status).toBe("accepted");
+				const signer = PrivateKey.generate();
+				expect((await basic.processTx({
+					version: 2,
+					transaction_id: Transaction.generateId(),
+					contract_hash: Crypto.hash256('"use strict";' + contractCode),
+					valid_till: 0,
+					payload: JSON.stringify({}),
+					threshold: 1,
+					public_keys: [tx.public_key, signer.publicKey],
+					signature: Buffer.concat([Crypto.uInt8ToBinary(1), Buffer.alloc(64)]),
+					public_key: Buffer.alloc(0)
+				}))).toEqual({ status: TxStatus.Accepted, message: signer.getAddress() });
+				done();
+			});
+			it("multi-signature for older contract", async (done) => {
+				const contractCode = "return from.join();";
+				expect((await basic.processTx(Object.assign({}, tx, {
+					payload: JSON.stringify(Object.assign({}, payload, {
+						code: Buffer.from(contractCode).toString("base64")
+					}))
+				}))).status).toBe("accepted");
+				const signer = PrivateKey.generate();
+				expect((await basic.processTx({
+					version: 2,
+					transaction_id: Transaction.generateId(),
+					contract_hash: Crypto.hash256('"use strict";' + contractCode),
+					valid_till: 0,
+					payload: JSON.stringify({}),
+					threshold: 1,
+					public_keys: [tx.public_key, signer.publicKey],
+					signature: Buffer.concat([Crypto.uInt8ToBinary(1), Buffer.alloc(64)]),
+					public_key: Buffer.alloc(0)
+				}))).toEqual({ status: TxStatus.Rejected, message: "Contract does not support multi-signature transactions." });
+				done();
+			});
 			it("reject string", async (done) => {
 				const contractCode = "reject(123);";
 				expect((await basic.processTx(Object.assign({}, tx, {
@@ -732,6 +1098,50 @@ if (process.env.integration === "true" || process.env.INTEGRATION === "true") {
 			});
 		});
 
+		describe("Rotate processor key", () => {
+			const publicKey = "0311df99130e18affa7d1c3b2bebf1750edc7a960c93ef772e2201b790879654ca";
+			it("succesful", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					contract_hash: Buffer.alloc(32, 254),
+					payload: JSON.stringify({ publicKey, fromBlock: 11 })
+				}))).status).toBe("accepted");
+				done();
+			});
+			it("load keys", async (done) => {
+				await basic.processTx(Object.assign({}, tx, {
+					contract_hash: Buffer.alloc(32, 254),
+					payload: JSON.stringify({ publicKey, fromBlock: 11 })
+				}));
+				await basic.query("RESET ROLE;", []);
+				const keys = await basic.loadProcessorKeys(new PublicKey(tx.public_key));
+				expect(keys.getKey(10).publicKey).toEqual(tx.public_key);
+				expect(keys.getKey(11).publicKey.toString("hex")).toBe(publicKey);
+				done();
+			});
+			it("past block", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					contract_hash: Buffer.alloc(32, 254),
+					payload: JSON.stringify({ publicKey, fromBlock: 10 })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Processor key can only be rotated for future blocks." });
+				done();
+			});
+			it("invalid key", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					contract_hash: Buffer.alloc(32, 254),
+					payload: JSON.stringify({ publicKey: "05" + publicKey.slice(2), fromBlock: 11 })
+				})))).toEqual({ status: TxStatus.Invalid, message: "Invalid public key." });
+				done();
+			});
+			it("wrong user", async (done) => {
+				expect((await basic.processTx(Object.assign({}, tx, {
+					contract_hash: Buffer.alloc(32, 254),
+					payload: JSON.stringify({ publicKey, fromBlock: 11 }),
+					public_key: Buffer.from(publicKey, "hex")
+				})))).toEqual({ status: TxStatus.Invalid, message: "User is not allowed to rotate the processor key." });
+				done();
+			});
+		});
+
 		describe("querySC new format", () => {
 			it("succesful", async (done) => {
 				const initCode = "await query('CREATE TABLE test (bla BIGINT);', []);" +
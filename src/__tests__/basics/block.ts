@@ -1,5 +1,5 @@
 /* eslint-disable max-len */
-import { Block, Crypto, UnsignedBlock, DBBlock, PrivateKey, Transaction } from "../../index";
+import { Block, Crypto, UnsignedBlock, DBBlock, PrivateKey, Transaction, Merkle } from "../../index";
 
 describe("Block", () => {
 	const prefix = Buffer.from("test");
@@ -11,7 +11,7 @@ describe("Block", () => {
 	describe("Sign block", () => {
 		it("Valid", () => expect(() => Block.sign(unsignedBlock, prefix, privateKey)).not.toThrow());
 		it("Valid", () => expect(() => Block.sign(unsignedBlock2, prefix, privateKey)).not.toThrow());
-		it("Invalid version", () => expect(() => Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: mergedTransactions, version: 2 }, prefix, privateKey)).toThrow());
+		it("Invalid version", () => expect(() => Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: mergedTransactions, version: 3 }, prefix, privateKey)).toThrow());
 		it("Invalid version", () => expect(() => Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: mergedTransactions, version: 0 }, prefix, privateKey)).toThrow());
 		it("Invalid version", () => expect(() => Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: mergedTransactions, version: NaN }, prefix, privateKey)).toThrow());
 		it("Invalid processed_ts", () => expect(() => Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: -1, transactions: mergedTransactions, version: 1 }, prefix, privateKey)).toThrow());
@@ -87,7 +87,7 @@ describe("Block", () => {
 		it("Valid", () => expect(() => new Block(validDBBlock)).not.toThrow());
 		it("Valid", () => expect(() => new Block(Object.assign({ transactions_amount: 0, signature: block2.getSignature() }, unsignedBlock2))).not.toThrow());
 		it("Invalid version", () => expect(() => new Block(Object.assign({}, validDBBlock, { version: 0 }))).toThrow());
-		it("Invalid version", () => expect(() => new Block(Object.assign({}, validDBBlock, { version: 2 }))).toThrow());
+		it("Invalid version", () => expect(() => new Block(Object.assign({}, validDBBlock, { version: 3 }))).toThrow());
 		it("Invalid version", () => expect(() => new Block(Object.assign({}, validDBBlock, { version: NaN }))).toThrow());
 		it("Invalid id", () => expect(() => new Block(Object.assign({}, validDBBlock, { block_id: 1.2 }))).toThrow());
 		it("Invalid id", () => expect(() => new Block(Object.assign({}, validDBBlock, { block_id: NaN }))).toThrow());
@@ -140,4 +140,97 @@ describe("Block", () => {
 		it("Unmerging uncomplete", () => expect(() => Block.unmerge(Buffer.alloc(1))).toThrow());
 		it("Unmerging too short", () => expect(() => Block.unmerge(Crypto.uInt32ToBinary(9999))).toThrow());
 	});
+
+	describe("Version 2", () => {
+		const txs = [tx, Transaction.sign({ transaction_id: Buffer.alloc(16, 5), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey)];
+		const v2Block1 = Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: Transaction.merge(txs), version: 2 }, prefix, privateKey);
+		const v2Block2 = Block.sign({ block_id: 1, previous_block_hash: v2Block1.getHash(prefix), processed_ts: 1234, transactions: Buffer.alloc(0), version: 2 }, prefix, privateKey);
+		const v2Block3 = Block.sign({ block_id: 1, previous_block_hash: block1.getHash(prefix), processed_ts: 1234, transactions: mergedTransactions, version: 2 }, prefix, privateKey);
+		const v1Block = Block.sign({ block_id: 2, previous_block_hash: v2Block3.getHash(prefix), processed_ts: 12345, transactions: Buffer.alloc(0), version: 1 }, prefix, privateKey);
+		const header = v2Block1.data.slice(4, 85);
+		//Same header and signature, but other transactions.
+		const tampered = new Block(Buffer.concat([Crypto.uInt32ToBinary(Block.emptyLengthV2), header, v2Block1.getSignature()]));
+		it("Version", () => expect(v2Block1.version).toBe(2));
+		it("Block id", () => expect(v2Block1.id).toBe(0));
+		it("Block processed ts", () => expect(v2Block1.processedTs).toBe(123));
+		it("Block length", () => expect(v2Block1.totalLength).toBe(Block.emptyLengthV2 + v2Block1.getTransactions().length));
+		it("Block length", () => expect(v2Block2.totalLength).toBe(Block.emptyLengthV2));
+		it("Block transactions", () => expect(v2Block1.getTransactions().equals(Transaction.merge(txs))).toBe(true));
+		it("Block transactions", () => expect(v2Block2.getTransactions().length).toBe(0));
+		it("Block transactions", () => expect(v2Block1.transactionsAmount).toBe(2));
+		it("Block transaction", () => expect(v2Block1.getTransaction(1).data.equals(txs[1].data)).toBe(true));
+		it("Merkle root", () => expect(v2Block1.getMerkleRoot()).toEqual(Merkle.getRoot(txs.map((transaction) => Merkle.hashLeaf(transaction.data)))));
+		it("Merkle root", () => expect(v2Block2.getMerkleRoot()).toEqual(Merkle.getRoot([])));
+		it("Merkle root", () => expect(Block.calculateMerkleRoot(Transaction.merge(txs))).toEqual(v2Block1.getMerkleRoot()));
+		it("Merkle root version 1", () => expect(() => block1.getMerkleRoot()).toThrow());
+		it("Merkle root invalid transactions", () => expect(() => Block.calculateMerkleRoot(Buffer.alloc(5))).toThrow());
+		it("Verify merkle root", () => expect(v2Block1.verifyMerkleRoot()).toBe(true));
+		it("Verify merkle root", () => expect(tampered.verifyMerkleRoot()).toBe(false));
+		it("Block signature", () => expect(v2Block1.verifySignature(prefix, privateKey)).toBe(true));
+		it("Block signature", () => expect(v2Block2.verifySignature(prefix, privateKey)).toBe(true));
+		it("Block signature other transactions", () => expect(tampered.verifySignature(prefix, privateKey)).toBe(false));
+		it("Block signature header only", () => expect(privateKey.verify(Buffer.concat([prefix, header]), v2Block1.getSignature())).toBe(true));
+		it("Hash", () => expect(v2Block1.getHash(prefix)).toEqual(Crypto.hash256(Buffer.concat([prefix, header]))));
+		it("Hash independent of transactions", () => expect(tampered.getHash(prefix)).toEqual(v2Block1.getHash(prefix)));
+		it("First block", () => expect(v2Block1.verifyWithPreviousBlock(prefix, undefined)).toBe(true));
+		it("Second block", () => expect(v2Block2.verifyWithPreviousBlock(prefix, v2Block1)).toBe(true));
+		it("After version 1", () => expect(v2Block3.verifyWithPreviousBlock(prefix, block1)).toBe(true));
+		it("Before version 1", () => expect(v1Block.verifyWithPreviousBlock(prefix, v2Block3)).toBe(true));
+		it("Wrong previous block", () => expect(v2Block3.verifyWithPreviousBlock(prefix, v2Block1)).toBe(false));
+		it("From buffer", () => expect(new Block(v2Block1.data).getMerkleRoot()).toEqual(v2Block1.getMerkleRoot()));
+		it("From db", () => expect(new Block({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: Transaction.merge(txs), version: 2, transactions_amount: 2, signature: v2Block1.getSignature() }).data).toEqual(v2Block1.data));
+		it("From db invalid transactions", () => expect(() => new Block({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: Buffer.alloc(3), version: 2, transactions_amount: 2, signature: v2Block1.getSignature() })).toThrow());
+		it("Too short", () => expect(() => new Block(Buffer.concat([Crypto.uInt32ToBinary(Block.emptyLength), v2Block2.data.slice(4, 53), v2Block2.getSignature()]))).toThrow());
+		it("Json merkle root", () => expect(v2Block1.toJSON().merkle_root).toBe(Crypto.binaryToHex(v2Block1.getMerkleRoot())));
+		it("Json round trip", () => expect(Block.fromJSON(v2Block1.toJSON()).data).toEqual(v2Block1.data));
+		it("Json without merkle root", () => expect(Block.fromJSON(Object.assign({}, v2Block1.toJSON(), { merkle_root: undefined })).data).toEqual(v2Block1.data));
+		it("Json invalid merkle root", () => expect(() => Block.fromJSON(Object.assign({}, v2Block1.toJSON(), { merkle_root: "00".repeat(32) }))).toThrow());
+		it("Merge and unmerge", () => expect(Block.unmerge(Block.merge([block1, v2Block1])).map((block) => block.version)).toEqual([1, 2]));
+	});
+
+	describe("Single transactions", () => {
+		const txA = Transaction.sign({ transaction_id: Buffer.alloc(16, 1), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+		const txB = Transaction.sign({ transaction_id: Buffer.alloc(16, 2), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: '{"a":1}' }, prefix, privateKey);
+		const txC = Transaction.sign({ transaction_id: Buffer.alloc(16, 3), version: 4, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}", sequence: 2, valid_from: 0, valid_from_block: 0, valid_till_block: 0 }, prefix, privateKey);
+		const block = Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: Transaction.merge([txA, txB, txC]), version: 1 }, prefix, privateKey);
+		const invalidBlock = Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: Buffer.concat([txA.data, Crypto.uInt32ToBinary(3), Buffer.alloc(3)]), version: 1 }, prefix, privateKey);
+		it("Amount", () => expect(block.transactionsAmount).toBe(3));
+		it("First", () => expect(block.getTransaction(0).data.equals(txA.data)).toBe(true));
+		it("Middle", () => expect(block.getTransaction(1).data.equals(txB.data)).toBe(true));
+		it("Last", () => expect(block.getTransaction(2).data.equals(txC.data)).toBe(true));
+		it("Invalid index", () => expect(() => block.getTransaction(3)).toThrow());
+		it("Invalid index", () => expect(() => block.getTransaction(-1)).toThrow());
+		it("Invalid index", () => expect(() => block.getTransaction(0.5)).toThrow());
+		it("Invalid index", () => expect(() => block2.getTransaction(0)).toThrow());
+		it("Invalid transaction", () => expect(() => invalidBlock.getTransaction(1)).toThrow());
+		it("Valid transaction in invalid block", () => expect(invalidBlock.getTransaction(0).data.equals(txA.data)).toBe(true));
+		it("By id", () => expect(block.getTransactionById(Buffer.alloc(16, 2))!.data.equals(txB.data)).toBe(true));
+		it("By id", () => expect(block.getTransactionById(Buffer.alloc(16, 3))!.data.equals(txC.data)).toBe(true));
+		it("By id missing", () => expect(block.getTransactionById(Buffer.alloc(16, 4))).toBeUndefined());
+		it("By id missing", () => expect(invalidBlock.getTransactionById(Buffer.alloc(16, 4))).toBeUndefined());
+		it("By id invalid", () => expect(() => block.getTransactionById(Buffer.alloc(15))).toThrow());
+		it("Iterate", () => expect(Array.from(block.iterateTransactions(), (transaction) => transaction.getId())).toEqual([txA.getId(), txB.getId(), txC.getId()]));
+		it("Iterate empty", () => expect(Array.from(block2.iterateTransactions())).toEqual([]));
+		it("Iterate lazy", () => expect(invalidBlock.iterateTransactions().next().value.data.equals(txA.data)).toBe(true));
+		it("Iterate invalid", () => expect(() => Array.from(invalidBlock.iterateTransactions())).toThrow());
+		it("Same as unmerge", () => expect(Array.from(block1.iterateTransactions(), (transaction) => transaction.data)).toEqual(Transaction.unmerge(block1.getTransactions()).map((transaction) => transaction.data)));
+	});
+
+	describe("JSON representation", () => {
+		const json = block1.toJSON();
+		it("Id", () => expect(json.block_id).toBe(0));
+		it("Previous block hash", () => expect(json.previous_block_hash).toBe("00".repeat(32)));
+		it("Processed ts", () => expect(json.processed_ts).toBe(123));
+		it("Transactions", () => expect(json.transactions).toEqual([tx.toJSON(), tx.toJSON(), tx.toJSON()]));
+		it("Signature", () => expect(json.signature).toBe(block1.getSignature().toString("hex")));
+		it("Round trip", () => expect(Block.fromJSON(json).data).toEqual(block1.data));
+		it("Round trip string", () => expect(Block.fromJSON(JSON.parse(JSON.stringify(block1))).data).toEqual(block1.data));
+		it("Round trip empty", () => expect(Block.fromJSON(block2.toJSON()).data).toEqual(block2.data));
+		it("Invalid previous block hash", () => expect(() => Block.fromJSON(Object.assign({}, json, { previous_block_hash: "00" }))).toThrow());
+		it("Invalid signature", () => expect(() => Block.fromJSON(Object.assign({}, json, { signature: "" }))).toThrow());
+		it("Invalid transaction", () => expect(() => Block.fromJSON(Object.assign({}, json, { transactions: [Object.assign({}, json.transactions[0], { signature: "00" })] }))).toThrow());
+		it("Invalid version", () => expect(() => Block.fromJSON(Object.assign({}, json, { version: 3 }))).toThrow());
+		it("Merkle root for version 1", () => expect(() => Block.fromJSON(Object.assign({}, json, { merkle_root: "00".repeat(32) }))).toThrow());
+		it("No merkle root", () => expect(json.merkle_root).toBeUndefined());
+	});
 });
\ No newline at end of file
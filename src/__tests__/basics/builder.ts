@@ -0,0 +1,78 @@
+/* eslint-disable max-len */
+import { TransactionBuilder, Transaction, PrivateKey, Template, PayloadEncoding } from "../../index";
+
+describe("TransactionBuilder", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const contractHash = Buffer.alloc(32, 8);
+	const template: Template = { amount: { type: "uint", maximum: 10 }, memo: { type: "str?" } };
+
+	describe("Build", () => {
+		const unsignedTx = new TransactionBuilder(contractHash).id(Buffer.alloc(16, 4)).payload({ key: "value" }).validTill(123).build();
+		it("Version", () => expect(unsignedTx.version).toBe(1));
+		it("Id", () => expect(unsignedTx.transaction_id).toEqual(Buffer.alloc(16, 4)));
+		it("Contract hash", () => expect(unsignedTx.contract_hash).toEqual(contractHash));
+		it("Valid till", () => expect(unsignedTx.valid_till).toBe(123));
+		it("Payload", () => expect(unsignedTx.payload).toBe('{"key":"value"}'));
+		it("Payload string", () => expect(new TransactionBuilder(contractHash).payload('{ "a": 1 }').build().payload).toBe('{ "a": 1 }'));
+		it("Default payload", () => expect(new TransactionBuilder(contractHash).build().payload).toBe("{}"));
+		it("Default valid till", () => expect(new TransactionBuilder(contractHash).build().valid_till).toBe(0));
+		it("Generated id", () => expect(new TransactionBuilder(contractHash).build().transaction_id.length).toBe(16));
+		it("Same id", () => expect(((builder) => builder.build().transaction_id.equals(builder.build().transaction_id))(new TransactionBuilder(contractHash))).toBe(true));
+		it("Valid for", () => expect(new TransactionBuilder(contractHash).validFor(1000, 5000).build().valid_till).toBe(6000));
+		it("Valid for now", () => expect(new TransactionBuilder(contractHash).validFor(1000).build().valid_till).toBeGreaterThan(Date.now()));
+		it("Invalid duration", () => expect(() => new TransactionBuilder(contractHash).validFor(0)).toThrow());
+		it("Invalid valid till", () => expect(() => new TransactionBuilder(contractHash).validTill(-1)).toThrow());
+		it("Invalid contract hash", () => expect(() => new TransactionBuilder(Buffer.alloc(31))).toThrow());
+		it("Invalid id", () => expect(() => new TransactionBuilder(contractHash).id(Buffer.alloc(15))).toThrow());
+		it("Validity window", () => expect(new TransactionBuilder(contractHash).validFrom(100).build()).toEqual(jasmine.objectContaining({ version: 3, valid_from: 100, valid_from_block: 0, valid_till_block: 0 })));
+		it("Valid blocks", () => expect(new TransactionBuilder(contractHash).validBlocks(5, 10).build()).toEqual(jasmine.objectContaining({ version: 3, valid_from: 0, valid_from_block: 5, valid_till_block: 10 })));
+		it("Valid blocks signed", () => expect(new TransactionBuilder(contractHash).validBlocks(5, 10).sign(prefix, privateKey).validTillBlock).toBe(10));
+		it("Invalid valid from", () => expect(() => new TransactionBuilder(contractHash).validFrom(-1)).toThrow());
+		it("Invalid valid blocks", () => expect(() => new TransactionBuilder(contractHash).validBlocks(10, 5)).toThrow());
+		it("Sequence", () => expect(new TransactionBuilder(contractHash).sequence(3).build()).toEqual(jasmine.objectContaining({ version: 4, sequence: 3, valid_from: 0, valid_from_block: 0, valid_till_block: 0 })));
+		it("Sequence with validity window", () => expect(new TransactionBuilder(contractHash).sequence(3).validBlocks(5).build()).toEqual(jasmine.objectContaining({ version: 4, sequence: 3, valid_from_block: 5 })));
+		it("Invalid sequence", () => expect(() => new TransactionBuilder(contractHash).sequence(-1)).toThrow());
+		it("Sequence multi-signature", () => expect(() => new TransactionBuilder(contractHash).sequence(1).multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Dependencies", () => expect(new TransactionBuilder(contractHash).after(Buffer.alloc(16, 1)).after(Buffer.alloc(16, 2)).build()).toEqual(jasmine.objectContaining({ version: 5, sequence: 0, dependencies: [Buffer.alloc(16, 1), Buffer.alloc(16, 2)] })));
+		it("Invalid dependency", () => expect(() => new TransactionBuilder(contractHash).after(Buffer.alloc(15))).toThrow());
+		it("Too many dependencies", () => expect(() => new TransactionBuilder(contractHash).after(...new Array(Transaction.maxDependencies + 1).fill(Buffer.alloc(16)))).toThrow());
+		it("Dependencies multi-signature", () => expect(() => new TransactionBuilder(contractHash).after(Buffer.alloc(16)).multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Validity window and sequence multi-signature", () => expect(() => new TransactionBuilder(contractHash).validFrom(1).sequence(1).multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Compress", () => expect(new TransactionBuilder(contractHash).compress().build()).toEqual(jasmine.objectContaining({ version: 6, payload_encoding: PayloadEncoding.Deflate, dependencies: [] })));
+		it("Compress large payload", () => expect(new TransactionBuilder(contractHash).payload({ key: "a".repeat(Transaction.maxPayloadLength) }).compress().sign(Buffer.from("test"), privateKey).getPayloadJson()).toEqual({ key: "a".repeat(Transaction.maxPayloadLength) }));
+		it("Uncompressed large payload", () => expect(() => new TransactionBuilder(contractHash).payload({ key: "a".repeat(Transaction.maxPayloadLength) }).build()).toThrow());
+		it("Compress too large payload", () => expect(() => new TransactionBuilder(contractHash).payload({ key: "a".repeat(Transaction.maxDecodedPayloadLength) }).compress().build()).toThrow());
+		it("Compress disabled", () => expect(new TransactionBuilder(contractHash).compress().compress(false).build().version).toBe(1));
+		it("Compress multi-signature", () => expect(() => new TransactionBuilder(contractHash).compress().multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Sponsored", () => expect(new TransactionBuilder(contractHash).sponsored().build()).toEqual(jasmine.objectContaining({ version: 7, sponsored: true, payload_encoding: PayloadEncoding.Raw })));
+		it("Sponsored sign", () => expect(new TransactionBuilder(contractHash).sponsored().sign(Buffer.from("test"), privateKey).getSponsorAddress()).toBeUndefined());
+		it("Sponsored multi-signature", () => expect(() => new TransactionBuilder(contractHash).sponsored().multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Validity window multi-signature", () => expect(() => new TransactionBuilder(contractHash).validFrom(1).multiSig(1, [privateKey.publicKey]).build()).toThrow());
+		it("Payload too large", () => expect(() => new TransactionBuilder(contractHash).payload({ a: "a".repeat(Transaction.maxPayloadLength) }).build()).toThrowError("Payload too large."));
+	});
+
+	describe("Template", () => {
+		it("Valid", () => expect(() => new TransactionBuilder(contractHash).template(template, 3).payload({ amount: 5 }).build()).not.toThrow());
+		it("Valid contract", () => expect(() => new TransactionBuilder(contractHash, { template, validanaVersion: 3 }).payload({ amount: 5, memo: "a" }).build()).not.toThrow());
+		it("Invalid", () => expect(() => new TransactionBuilder(contractHash).template(template, 3).payload({ amount: 11 }).build()).toThrowError("Payload has value above maximum"));
+		it("Invalid contract", () => expect(() => new TransactionBuilder(contractHash, { template, validanaVersion: 3 }).payload({}).sign(prefix, privateKey)).toThrow());
+		it("Invalid json", () => expect(() => new TransactionBuilder(contractHash).template(template, 3).payload("{").build()).toThrowError("Payload is invalid json."));
+		it("Not an object", () => expect(() => new TransactionBuilder(contractHash).template(template, 3).payload("[]").build()).toThrowError("Payload is invalid json."));
+		it("Violations", () => expect(new TransactionBuilder(contractHash).template(template, 3).payload({ amount: -1, extra: true }).validate().length).toBe(2));
+		it("No template", () => expect(new TransactionBuilder(contractHash).payload("{").validate()).toEqual([]));
+	});
+
+	describe("Sign", () => {
+		const builder = new TransactionBuilder(contractHash).id(Buffer.alloc(16, 4)).payload({ key: "value" }).validTill(123);
+		it("Signed", () => expect(builder.sign(prefix, privateKey).data.slice(0, -97)).toEqual(Transaction.sign(builder.build(), prefix, privateKey).data.slice(0, -97)));
+		it("Signature valid", () => expect(builder.sign(prefix, privateKey).verifySignature(prefix)).toBe(true));
+		it("Unsigned binary", () => expect(Transaction.sign(builder.toBinary(), prefix, privateKey).data.slice(0, -97)).toEqual(builder.sign(prefix, privateKey).data.slice(0, -97)));
+		it("Unsigned binary length", () => expect(builder.toBinary().readUInt32LE(0)).toBe(builder.toBinary().length - 4));
+		const privateKey2 = PrivateKey.generate();
+		const multiSig = new TransactionBuilder(contractHash).multiSig(1, [privateKey.publicKey, privateKey2.publicKey]);
+		it("Multi-signature", () => expect(multiSig.sign(prefix, privateKey2).version).toBe(2));
+		it("Multi-signature", () => expect(multiSig.sign(prefix, privateKey2).verifySignature(prefix)).toBe(true));
+		it("Multi-signature unsigned binary", () => expect(Transaction.sign(multiSig.toBinary(), prefix, privateKey).getSignerAddresses()).toEqual([privateKey.getAddress()]));
+	});
+});
\ No newline at end of file
@@ -0,0 +1,96 @@
+/* eslint-disable max-len */
+import { deflateRawSync } from "zlib";
+import { TxEnvelope, Transaction, PrivateKey, UnsignedTx, Crypto, PayloadEncoding } from "../../index";
+
+describe("TxEnvelope", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const privateKey2 = PrivateKey.generate();
+	const privateKey3 = PrivateKey.generate();
+	const unsignedTx: UnsignedTx = { transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 123, payload: '{"key":"value"}' };
+	const unsignedMultiSig: UnsignedTx = Object.assign({}, unsignedTx, { version: 2, threshold: 2, public_keys: [privateKey.publicKey, privateKey2.publicKey, privateKey3.publicKey] });
+	const envelope = new TxEnvelope(unsignedTx, prefix);
+	const multiSigEnvelope = new TxEnvelope(unsignedMultiSig, prefix);
+
+	describe("Create", () => {
+		it("Invalid version", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: Transaction.maxVersion + 1 }), prefix)).toThrow());
+		it("Sequence version 3", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 3, sequence: 5 }), prefix)).toThrow());
+		it("Dependencies version 4", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 4, dependencies: [] }), prefix)).toThrow());
+		it("Invalid dependency", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 5, dependencies: [Buffer.alloc(15)] }), prefix)).toThrow());
+		it("Payload encoding version 5", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 5, payload_encoding: PayloadEncoding.Deflate }), prefix)).toThrow());
+		it("Unsupported payload encoding", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: 2 }), prefix)).toThrow());
+		it("Sponsored version 6", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, sponsored: true }), prefix)).toThrow());
+		it("Validity window version 1", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { valid_from: 5 }), prefix)).toThrow());
+		it("Invalid id", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { transaction_id: Buffer.alloc(15) }), prefix)).toThrow());
+		it("Invalid contract hash", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { contract_hash: Buffer.alloc(33) }), prefix)).toThrow());
+		it("Invalid valid till", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { valid_till: -1 }), prefix)).toThrow());
+		it("Payload too large", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { payload: "a".repeat(Transaction.maxPayloadLength + 1) }), prefix)).toThrow());
+		it("Invalid public key", () => expect(() => new TxEnvelope(Object.assign({}, unsignedMultiSig, { public_keys: [Buffer.alloc(33)] }), prefix)).toThrow());
+		it("Summary", () => expect(envelope.getSummary()).toBe(`Transaction: ${"04".repeat(16)} (version 1)\nContract: ${"08".repeat(32)}\nValid till: 1970-01-01T00:00:00.123Z\nSign prefix: 74657374\nPayload: {"key":"value"}`));
+		it("Summary no expiration", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { valid_till: 0 }), prefix).getSummary()).toContain("Valid till: no expiration\n"));
+		it("Summary validity window", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 3, valid_from: 1000, valid_from_block: 5 }), prefix).getSummary()).toContain("Valid from: 1970-01-01T00:00:01.000Z\nValid blocks: 5 till no expiration\n"));
+		it("Summary sequence", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 4, sequence: 5 }), prefix).getSummary()).toContain("Sequence: 5\n"));
+		it("Summary dependencies", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 5, dependencies: [Buffer.alloc(16, 1)] }), prefix).getSummary()).toContain(`Requires accepted: ${"01".repeat(16)}\n`));
+		it("Summary payload encoding", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate }), prefix).getSummary()).toContain("Payload encoding: deflate\n"));
+		it("Summary sponsored", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).getSummary()).toContain("Sponsored: yes\n"));
+		it("Summary signers", () => expect(multiSigEnvelope.getSummary()).toContain(`Signers: 2 of ${privateKey.getAddress()}, ${privateKey2.getAddress()}, ${privateKey3.getAddress()}\n`));
+	});
+
+	describe("Serialize", () => {
+		it("File", () => expect(TxEnvelope.fromFile(envelope.toFile()).toBase64Url()).toBe(envelope.toBase64Url()));
+		it("File multi-signature", () => expect(TxEnvelope.fromFile(multiSigEnvelope.toFile()).tx).toEqual(unsignedMultiSig));
+		it("File summary", () => expect(JSON.parse(envelope.toFile()).summary).toBe(envelope.getSummary()));
+		it("File changed summary", () => expect(() => TxEnvelope.fromFile(JSON.stringify(Object.assign(JSON.parse(envelope.toFile()), { summary: "Harmless" })))).toThrowError("Summary does not match transaction."));
+		it("File changed payload", () => expect(() => TxEnvelope.fromFile(envelope.toFile().replace('"payload": "{\\"key\\":\\"value\\"}"', '"payload": "{}"'))).toThrowError("Summary does not match transaction."));
+		it("Not an envelope", () => expect(() => TxEnvelope.fromFile("{}")).toThrow());
+		it("Invalid hex", () => expect(() => TxEnvelope.fromFile(envelope.toFile().replace("0404", "zz04"))).toThrow());
+		it("File validity window", () => expect(TxEnvelope.fromFile(new TxEnvelope(Object.assign({}, unsignedTx, { version: 3, valid_from: 1, valid_from_block: 2, valid_till_block: 3 }), prefix).toFile()).tx).toEqual(Object.assign({}, unsignedTx, { version: 3, valid_from: 1, valid_from_block: 2, valid_till_block: 3 })));
+		it("File sequence", () => expect(TxEnvelope.fromFile(new TxEnvelope(Object.assign({}, unsignedTx, { version: 4, sequence: 5 }), prefix).toFile()).tx).toEqual(Object.assign({}, unsignedTx, { version: 4, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 5 })));
+		it("File dependencies", () => expect(TxEnvelope.fromFile(new TxEnvelope(Object.assign({}, unsignedTx, { version: 5, dependencies: [Buffer.alloc(16, 1)] }), prefix).toFile()).tx).toEqual(Object.assign({}, unsignedTx, { version: 5, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies: [Buffer.alloc(16, 1)] })));
+		it("File payload encoding", () => expect(TxEnvelope.fromFile(new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate }), prefix).toFile()).tx).toEqual(Object.assign({}, unsignedTx, { version: 6, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies: [], payload_encoding: PayloadEncoding.Deflate, encoded_payload: Transaction.encodePayload(Buffer.from(unsignedTx.payload), PayloadEncoding.Deflate) })));
+		it("Base64url payload encoding", () => expect(TxEnvelope.fromBase64Url(new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate }), prefix).toBase64Url()).tx.payload).toBe(unsignedTx.payload));
+		const otherCompression: UnsignedTx = Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate, encoded_payload: deflateRawSync(Buffer.from(unsignedTx.payload), { level: 1 }) });
+		const otherCompressionTx = new TxEnvelope(otherCompression, prefix).combine(new TxEnvelope(otherCompression, prefix).sign(privateKey));
+		it("Base64url other compression", () => expect(TxEnvelope.fromBase64Url(new TxEnvelope(otherCompression, prefix).toBase64Url()).tx.encoded_payload).toEqual(otherCompression.encoded_payload));
+		it("File other compression", () => expect(TxEnvelope.fromFile(new TxEnvelope(otherCompression, prefix).toFile()).toBase64Url()).toBe(new TxEnvelope(otherCompression, prefix).toBase64Url()));
+		it("Combine other compression", () => expect(otherCompressionTx.getEncodedPayloadBinary()).toEqual(otherCompression.encoded_payload!));
+		it("Combine other compression", () => expect(otherCompressionTx.verifySignature(prefix)).toBe(true));
+		it("Encoded payload does not match", () => expect(() => new TxEnvelope(Object.assign({}, otherCompression, { payload: "{}" }), prefix)).toThrowError("Invalid encoded payload."));
+		it("Encoded payload raw", () => expect(() => new TxEnvelope(Object.assign({}, otherCompression, { payload_encoding: PayloadEncoding.Raw }), prefix)).toThrowError("Invalid encoded payload."));
+		it("Combine compressed", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate }), prefix).combine(new TxEnvelope(Object.assign({}, unsignedTx, { version: 6, payload_encoding: PayloadEncoding.Deflate }), prefix).sign(privateKey)).getPayloadJson()).toEqual({ key: "value" }));
+		it("File sponsored", () => expect(TxEnvelope.fromFile(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).toFile()).tx).toEqual(Object.assign({}, unsignedTx, { version: 7, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies: [], payload_encoding: 0, sponsored: true })));
+		it("Combine sponsored", () => expect(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).combine(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).sign(privateKey)).getSponsorAddress()).toBeUndefined());
+		it("Combine sponsored then sponsor", () => expect(Transaction.sponsor(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).combine(new TxEnvelope(Object.assign({}, unsignedTx, { version: 7, sponsored: true }), prefix).sign(privateKey)), prefix, privateKey2).verifySignature(prefix)).toBe(true));
+		it("Base64url validity window", () => expect(TxEnvelope.fromBase64Url(new TxEnvelope(Object.assign({}, unsignedTx, { version: 3, valid_till_block: 3 }), prefix).toBase64Url()).tx).toEqual(Object.assign({}, unsignedTx, { version: 3, valid_from: 0, valid_from_block: 0, valid_till_block: 3 })));
+		it("Base64url", () => expect(TxEnvelope.fromBase64Url(envelope.toBase64Url()).tx).toEqual(unsignedTx));
+		it("Base64url prefix", () => expect(TxEnvelope.fromBase64Url(envelope.toBase64Url()).signPrefix).toEqual(prefix));
+		it("Base64url multi-signature", () => expect(TxEnvelope.fromBase64Url(multiSigEnvelope.toBase64Url()).tx).toEqual(unsignedMultiSig));
+		it("Base64url characters", () => expect(envelope.toBase64Url()).toMatch(/^[A-Za-z0-9_-]*$/));
+		it("Invalid base64url", () => expect(() => TxEnvelope.fromBase64Url("a+b")).toThrow());
+		it("Invalid format", () => expect(() => TxEnvelope.fromBase64Url(Crypto.binaryToBase64Url(Buffer.from([2, 0, 0, 0, 0])))).toThrow());
+		it("Invalid prefix length", () => expect(() => TxEnvelope.fromBase64Url(Crypto.binaryToBase64Url(Buffer.from([1, 255, 0, 0, 0])))).toThrow());
+		it("Truncated", () => expect(() => TxEnvelope.fromBase64Url(Crypto.binaryToBase64Url(Crypto.base64UrlToBinary(envelope.toBase64Url()).slice(0, 40)))).toThrow());
+		const signature = envelope.sign(privateKey);
+		it("Signature", () => expect(TxEnvelope.signatureFromBase64Url(TxEnvelope.signatureToBase64Url(signature))).toEqual(signature));
+		it("Invalid signature", () => expect(() => TxEnvelope.signatureFromBase64Url("abcd")).toThrow());
+	});
+
+	describe("Sign and combine", () => {
+		const offline = TxEnvelope.fromBase64Url(envelope.toBase64Url());
+		const signature = TxEnvelope.signatureFromBase64Url(TxEnvelope.signatureToBase64Url(offline.sign(privateKey)));
+		it("Combine", () => expect(envelope.combine(signature).data.slice(0, -97)).toEqual(Transaction.sign(unsignedTx, prefix, privateKey).data.slice(0, -97)));
+		it("Combine valid", () => expect(envelope.combine(signature).verifySignature(prefix)).toBe(true));
+		it("Combine address", () => expect(envelope.combine(signature).getAddress()).toBe(privateKey.getAddress()));
+		it("Wrong envelope", () => expect(() => new TxEnvelope(Object.assign({}, unsignedTx, { payload: "{}" }), prefix).combine(signature)).toThrowError("Signature does not match the transaction."));
+		it("Wrong prefix", () => expect(() => new TxEnvelope(unsignedTx, Buffer.from("other")).combine(signature)).toThrow());
+		it("No signature", () => expect(() => envelope.combine()).toThrow());
+		it("Too many signatures", () => expect(() => envelope.combine(signature, signature)).toThrow());
+		it("Multi-signature", () => expect(multiSigEnvelope.combine(multiSigEnvelope.sign(privateKey3), multiSigEnvelope.sign(privateKey)).getSignerAddresses()).toEqual([privateKey.getAddress(), privateKey3.getAddress()]));
+		it("Multi-signature below threshold", () => expect(() => multiSigEnvelope.combine(multiSigEnvelope.sign(privateKey2))).toThrowError("Not enough valid signatures."));
+		it("Multi-signature other key", () => expect(() => multiSigEnvelope.sign(PrivateKey.generate())).toThrow());
+		it("Multi-signature other signature", () => expect(() => multiSigEnvelope.combine(multiSigEnvelope.sign(privateKey), new TxEnvelope(unsignedTx, prefix).sign(privateKey2))).toThrow());
+		it("Verify", () => expect(envelope.verify(Transaction.sign(unsignedTx, prefix, privateKey))).toBe(true));
+		it("Verify other transaction", () => expect(envelope.verify(Transaction.sign(Object.assign({}, unsignedTx, { payload: '{"key":"value2"}' }), prefix, privateKey))).toBe(false));
+		it("Verify other prefix", () => expect(envelope.verify(Transaction.sign(unsignedTx, Buffer.from("other"), privateKey))).toBe(false));
+	});
+});
\ No newline at end of file
@@ -0,0 +1,61 @@
+/* eslint-disable max-len */
+import { Block, BlockHeader, Crypto, EquivocationProof, PrivateKey, Transaction } from "../../index";
+
+describe("EquivocationProof", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const otherKey = PrivateKey.generate();
+	const tx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const sign = (version: number, transactions: Buffer, key: PrivateKey = privateKey, id: number = 5) => Block.sign({ block_id: id, previous_block_hash: Buffer.alloc(32, 1), processed_ts: 123, transactions, version }, prefix, key);
+	const v2a = sign(2, tx.data);
+	const v2b = sign(2, Buffer.alloc(0));
+	const v1a = sign(1, tx.data);
+	const v1b = sign(1, Buffer.alloc(0));
+	const proof = EquivocationProof.create(v2a, v2b);
+
+	describe("Create", () => {
+		it("Block id", () => expect(proof.blockId).toBe(5));
+		it("Headers only", () => expect(proof.first instanceof BlockHeader && proof.second instanceof BlockHeader).toBe(true));
+		it("Compact", () => expect(proof.totalLength).toBe(2 * (BlockHeader.headerLength + 4)));
+		it("First", () => expect(proof.first.data).toEqual(v2a.getHeader().data));
+		it("Second", () => expect(proof.second.data).toEqual(v2b.getHeader().data));
+		it("From headers", () => expect(EquivocationProof.create(v2a.getHeader(), v2b.getHeader()).data).toEqual(proof.data));
+		it("Version 1", () => expect(EquivocationProof.create(v1a, v1b).first instanceof Block).toBe(true));
+		it("Mixed versions", () => expect(EquivocationProof.create(v1a, v2b).verify(prefix, privateKey)).toBe(true));
+		it("Other id", () => expect(() => EquivocationProof.create(v2a, sign(2, Buffer.alloc(0), privateKey, 6))).toThrow());
+		it("Same block", () => expect(() => EquivocationProof.create(v2a, v2a)).toThrow());
+		it("Same block other signature", () => expect(() => EquivocationProof.create(v2a, sign(2, tx.data))).toThrow());
+		it("Same version 1 block", () => expect(() => EquivocationProof.create(v1a, sign(1, tx.data))).toThrow());
+	});
+
+	describe("From buffer", () => {
+		it("Round trip", () => expect(new EquivocationProof(proof.data).data).toEqual(proof.data));
+		it("Round trip", () => expect(new EquivocationProof(Buffer.from(proof.data)).verify(prefix, privateKey)).toBe(true));
+		it("Round trip version 1", () => expect(new EquivocationProof(EquivocationProof.create(v1b, v1a).data).second.data).toEqual(v1a.data));
+		it("Too short", () => expect(() => new EquivocationProof(proof.data.slice(0, -1))).toThrow());
+		it("Too long", () => expect(() => new EquivocationProof(Buffer.concat([proof.data, Buffer.alloc(1)]))).toThrow());
+		it("Empty", () => expect(() => new EquivocationProof(Buffer.alloc(0))).toThrow());
+		it("Single block", () => expect(() => new EquivocationProof(Buffer.concat([Crypto.uInt32ToBinary(v2a.getHeader().data.length), v2a.getHeader().data]))).toThrow());
+		it("Invalid first length", () => expect(() => new EquivocationProof(Buffer.concat([proof.data.slice(0, 4), Crypto.uInt32ToBinary(144), proof.data.slice(8)]))).toThrow());
+	});
+
+	describe("Verify", () => {
+		it("Valid", () => expect(proof.verify(prefix, privateKey)).toBe(true));
+		it("Version 1", () => expect(EquivocationProof.create(v1a, v1b).verify(prefix, privateKey)).toBe(true));
+		it("Other key", () => expect(proof.verify(prefix, otherKey)).toBe(false));
+		it("Other prefix", () => expect(proof.verify(Buffer.from("other"), privateKey)).toBe(false));
+		it("One signed by other key", () => expect(EquivocationProof.create(v2a, sign(2, Buffer.alloc(0), otherKey)).verify(prefix, privateKey)).toBe(false));
+		it("Invalid signature", () => expect(EquivocationProof.create(v2a, BlockHeader.create(v2b.data.slice(4, 85), v2a.getSignature())).verify(prefix, privateKey)).toBe(false));
+	});
+
+	describe("Detect", () => {
+		it("Equivocation", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, v2b)!.data).toEqual(proof.data));
+		it("Equivocation headers", () => expect(EquivocationProof.detect(prefix, privateKey, v2a.getHeader(), v2b)).toBeDefined());
+		it("Equivocation version 1", () => expect(EquivocationProof.detect(prefix, privateKey, v1a, v1b)).toBeDefined());
+		it("Same block", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, new Block(v2a.data))).toBeUndefined());
+		it("Same block other signature", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, sign(2, tx.data))).toBeUndefined());
+		it("Block and its header", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, v2a.getHeader())).toBeUndefined());
+		it("Other id", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, sign(2, tx.data, privateKey, 6))).toBeUndefined());
+		it("Not signed by processor", () => expect(EquivocationProof.detect(prefix, privateKey, v2a, sign(2, Buffer.alloc(0), otherKey))).toBeUndefined());
+	});
+});
\ No newline at end of file
@@ -0,0 +1,81 @@
+/* eslint-disable max-len */
+import { Block, BlockHeader, Crypto, PrivateKey, Transaction } from "../../index";
+
+describe("BlockHeader", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const otherKey = PrivateKey.generate();
+	const tx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const blocks: Block[] = [];
+	for (let i = 0; i < 4; i++) {
+		blocks.push(Block.sign({ block_id: i, previous_block_hash: i === 0 ? Buffer.alloc(32) : blocks[i - 1].getHash(prefix), processed_ts: 100 + i, transactions: i % 2 === 0 ? tx.data : Buffer.alloc(0), version: 2 }, prefix, privateKey));
+	}
+	const headers = blocks.map((block) => block.getHeader());
+	const v1Block = Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 100, transactions: tx.data, version: 1 }, prefix, privateKey);
+	const v2AfterV1 = Block.sign({ block_id: 1, previous_block_hash: v1Block.getHash(prefix), processed_ts: 101, transactions: tx.data, version: 2 }, prefix, privateKey);
+	const signed = BlockHeader.sign({ block_id: 1, previous_block_hash: headers[0].getHash(prefix), processed_ts: 101, merkle_root: blocks[1].getMerkleRoot(), version: 2 }, prefix, privateKey);
+
+	describe("From block", () => {
+		it("Version", () => expect(headers[0].version).toBe(2));
+		it("Id", () => expect(headers[1].id).toBe(1));
+		it("Processed ts", () => expect(headers[1].processedTs).toBe(101));
+		it("Length", () => expect(headers[0].totalLength).toBe(BlockHeader.headerLength));
+		it("Length", () => expect(headers[0].data.length).toBe(BlockHeader.headerLength + 4));
+		it("Previous block hash", () => expect(headers[1].getPreviousBlockHash()).toEqual(blocks[0].getHash(prefix)));
+		it("Merkle root", () => expect(headers[0].getMerkleRoot()).toEqual(blocks[0].getMerkleRoot()));
+		it("Signature", () => expect(headers[0].getSignature()).toEqual(blocks[0].getSignature()));
+		it("Hash", () => expect(headers[2].getHash(prefix)).toEqual(blocks[2].getHash(prefix)));
+		it("Verify signature", () => expect(headers[0].verifySignature(prefix, privateKey)).toBe(true));
+		it("Verify signature", () => expect(headers[0].verifySignature(prefix, otherKey)).toBe(false));
+		it("Verify signature", () => expect(headers[0].verifySignature(Buffer.from("other"), privateKey)).toBe(false));
+		it("Version 1", () => expect(() => v1Block.getHeader()).toThrow());
+	});
+
+	describe("Serialize", () => {
+		it("Round trip", () => expect(new BlockHeader(headers[1].data).getHash(prefix)).toEqual(headers[1].getHash(prefix)));
+		it("Round trip", () => expect(new BlockHeader(Buffer.from(headers[1].data)).verifySignature(prefix, privateKey)).toBe(true));
+		it("Create", () => expect(BlockHeader.create(blocks[0].data.slice(4, 85), blocks[0].getSignature()).data).toEqual(headers[0].data));
+		it("Too short", () => expect(() => new BlockHeader(headers[0].data.slice(0, -1))).toThrow());
+		it("Too long", () => expect(() => new BlockHeader(Buffer.concat([headers[0].data, Buffer.alloc(1)]))).toThrow());
+		it("Empty", () => expect(() => new BlockHeader(Buffer.alloc(0))).toThrow());
+		it("Invalid version", () => expect(() => new BlockHeader(Buffer.concat([headers[0].data.slice(0, 4), Crypto.uInt8ToBinary(1), headers[0].data.slice(5)]))).toThrow());
+		it("Invalid id", () => expect(() => new BlockHeader(Buffer.concat([headers[0].data.slice(0, 5), Buffer.alloc(8, 255), headers[0].data.slice(13)]))).toThrow());
+		it("Invalid processed ts", () => expect(() => new BlockHeader(Buffer.concat([headers[0].data.slice(0, 45), Buffer.alloc(8, 255), headers[0].data.slice(53)]))).toThrow());
+	});
+
+	describe("Sign", () => {
+		it("Same data as block", () => expect(signed.data.slice(0, -64)).toEqual(headers[1].data.slice(0, -64)));
+		it("Same hash as block", () => expect(signed.getHash(prefix)).toEqual(blocks[1].getHash(prefix)));
+		it("Verify signature", () => expect(signed.verifySignature(prefix, privateKey)).toBe(true));
+		it("Block with signature", () => expect(new Block(Buffer.concat([blocks[1].data.slice(0, -64), signed.getSignature()])).verifySignature(prefix, privateKey)).toBe(true));
+		it("Invalid version", () => expect(() => BlockHeader.sign({ block_id: 1, previous_block_hash: Buffer.alloc(32), processed_ts: 101, merkle_root: Buffer.alloc(32), version: 1 }, prefix, privateKey)).toThrow());
+		it("Invalid merkle root", () => expect(() => BlockHeader.sign({ block_id: 1, previous_block_hash: Buffer.alloc(32), processed_ts: 101, merkle_root: Buffer.alloc(31), version: 2 }, prefix, privateKey)).toThrow());
+		it("Invalid previous block hash", () => expect(() => BlockHeader.sign({ block_id: 1, previous_block_hash: Buffer.alloc(31), processed_ts: 101, merkle_root: Buffer.alloc(32), version: 2 }, prefix, privateKey)).toThrow());
+	});
+
+	describe("Previous header", () => {
+		it("First", () => expect(headers[0].verifyWithPreviousHeader(prefix, undefined)).toBe(true));
+		it("Second", () => expect(headers[1].verifyWithPreviousHeader(prefix, headers[0])).toBe(true));
+		it("Previous block", () => expect(headers[1].verifyWithPreviousHeader(prefix, blocks[0])).toBe(true));
+		it("Previous version 1 block", () => expect(v2AfterV1.getHeader().verifyWithPreviousHeader(prefix, v1Block)).toBe(true));
+		it("Block after header", () => expect(blocks[2].verifyWithPreviousBlock(prefix, headers[1])).toBe(true));
+		it("Wrong previous", () => expect(v2AfterV1.getHeader().verifyWithPreviousHeader(prefix, headers[0])).toBe(false));
+		it("Wrong id", () => expect(() => headers[2].verifyWithPreviousHeader(prefix, headers[0])).toThrow());
+		it("Wrong id", () => expect(() => headers[1].verifyWithPreviousHeader(prefix, undefined)).toThrow());
+		it("Same time", () => expect(BlockHeader.sign({ block_id: 1, previous_block_hash: headers[0].getHash(prefix), processed_ts: 100, merkle_root: Buffer.alloc(32), version: 2 }, prefix, privateKey).verifyWithPreviousHeader(prefix, headers[0])).toBe(false));
+	});
+
+	describe("Verify chain", () => {
+		it("Valid", () => expect(BlockHeader.verifyChain(prefix, privateKey, headers)).toBe(4));
+		it("Empty", () => expect(BlockHeader.verifyChain(prefix, privateKey, [])).toBe(0));
+		it("With previous", () => expect(BlockHeader.verifyChain(prefix, privateKey, headers.slice(2), headers[1])).toBe(2));
+		it("With previous block", () => expect(BlockHeader.verifyChain(prefix, privateKey, [v2AfterV1.getHeader()], v1Block)).toBe(1));
+		it("Without previous", () => expect(BlockHeader.verifyChain(prefix, privateKey, headers.slice(2))).toBe(0));
+		it("Missing header", () => expect(BlockHeader.verifyChain(prefix, privateKey, [headers[0], headers[1], headers[3]])).toBe(2));
+		it("Wrong order", () => expect(BlockHeader.verifyChain(prefix, privateKey, [headers[0], headers[2], headers[1]])).toBe(1));
+		it("Wrong key", () => expect(BlockHeader.verifyChain(prefix, otherKey, headers)).toBe(0));
+		it("Wrong prefix", () => expect(BlockHeader.verifyChain(Buffer.from("other"), privateKey, headers)).toBe(0));
+		it("Forked", () => expect(BlockHeader.verifyChain(prefix, privateKey, [headers[0], v2AfterV1.getHeader()])).toBe(1));
+		it("Invalid signature", () => expect(BlockHeader.verifyChain(prefix, privateKey, [headers[0], BlockHeader.create(headers[1].data.slice(4, -64), headers[0].getSignature())])).toBe(1));
+	});
+});
\ No newline at end of file
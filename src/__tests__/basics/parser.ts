@@ -0,0 +1,69 @@
+/* eslint-disable max-len */
+import { Block, Crypto, PrivateKey, StreamParser, Transaction } from "../../index";
+
+describe("StreamParser", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const tx1 = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 123, payload: '{"key":"value"}' }, prefix, privateKey);
+	const tx2 = Transaction.sign({ transaction_id: Buffer.alloc(16, 5), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const mergedTransactions = Transaction.merge([tx1, tx2, tx1]);
+	const block1 = Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 123, transactions: mergedTransactions, version: 1 }, prefix, privateKey);
+	const block2 = Block.sign({ block_id: 1, previous_block_hash: block1.getHash(prefix), processed_ts: 1234, transactions: Buffer.alloc(0), version: 1 }, prefix, privateKey);
+	const mergedBlocks = Block.merge([block1, block2]);
+	const split = (data: Buffer, size: number) => {
+		const chunks: Buffer[] = [];
+		for (let i = 0; i < data.length; i += size) {
+			chunks.push(data.slice(i, i + size));
+		}
+		return chunks;
+	};
+	const collect = async <T>(iterator: AsyncIterable<T>) => {
+		const result: T[] = [];
+		for await (const item of iterator) {
+			result.push(item);
+		}
+		return result;
+	};
+	async function* asyncChunks(chunks: Buffer[]): AsyncGenerator<Buffer> {
+		for (const chunk of chunks) {
+			yield await Promise.resolve(chunk);
+		}
+	}
+
+	describe("Push", () => {
+		it("Whole data", () => expect(StreamParser.transactions().push(mergedTransactions).map((tx) => tx.getId())).toEqual([tx1.getId(), tx2.getId(), tx1.getId()]));
+		it("Single bytes", () => { const parser = StreamParser.transactions(); expect(split(mergedTransactions, 1).reduce((amount, chunk) => amount + parser.push(chunk).length, 0)).toBe(3); });
+		it("Odd chunks", () => { const parser = StreamParser.blocks(); expect(([] as Block[]).concat(...split(mergedBlocks, 77).map((chunk) => parser.push(chunk))).map((block) => block.id)).toEqual([0, 1]); });
+		it("Result as soon as complete", () => expect(StreamParser.transactions().push(Buffer.concat([tx1.data, tx2.data.slice(0, 10)])).length).toBe(1));
+		it("Nothing yet", () => expect(StreamParser.transactions().push(tx1.data.slice(0, -1))).toEqual([]));
+		it("Nothing yet", () => expect(StreamParser.transactions().push(Buffer.alloc(3))).toEqual([]));
+		it("Empty chunk", () => expect(StreamParser.transactions().push(Buffer.alloc(0))).toEqual([]));
+		it("Zero copy", () => expect(StreamParser.transactions().push(mergedTransactions)[1].data.buffer).toBe(mergedTransactions.buffer));
+		it("Copy if split", () => { const parser = StreamParser.transactions(); parser.push(tx1.data.slice(0, 10)); expect(parser.push(tx1.data.slice(10))[0].data.equals(tx1.data)).toBe(true); });
+		it("Invalid chunk", () => expect(() => StreamParser.transactions().push("abc" as any)).toThrow());
+		it("Too short length", () => expect(() => StreamParser.transactions().push(Crypto.uInt32ToBinary(Transaction.emptyMultiSigLength - 1))).toThrow());
+		it("Too short length", () => expect(() => StreamParser.blocks().push(Crypto.uInt32ToBinary(Block.emptyLength - 1))).toThrow());
+		it("Too long length", () => expect(() => StreamParser.transactions().push(Crypto.uInt32ToBinary(StreamParser.maxTransactionLength + 1))).toThrow());
+		it("Too long length", () => expect(() => StreamParser.blocks(1000).push(Crypto.uInt32ToBinary(1001))).toThrow());
+		it("Long length", () => expect(StreamParser.blocks(1000).push(Crypto.uInt32ToBinary(1000))).toEqual([]));
+		it("Too long length early", () => { const parser = StreamParser.blocks(1000); parser.push(Crypto.uInt32ToBinary(1001).slice(0, 3)); expect(() => parser.push(Crypto.uInt32ToBinary(1001).slice(3))).toThrow(); });
+		it("Invalid item", () => expect(() => StreamParser.transactions().push(Buffer.concat([Crypto.uInt32ToBinary(100), Buffer.alloc(100)]))).toThrow());
+		it("Custom", () => expect(new StreamParser((data) => data.length, 0, 10).push(Buffer.concat([Crypto.uInt32ToBinary(1), Buffer.alloc(1), Crypto.uInt32ToBinary(0)]))).toEqual([5, 4]));
+	});
+
+	describe("End", () => {
+		it("Complete", () => { const parser = StreamParser.transactions(); parser.push(mergedTransactions); expect(() => parser.end()).not.toThrow(); });
+		it("Nothing", () => expect(() => StreamParser.transactions().end()).not.toThrow());
+		it("Truncated", () => { const parser = StreamParser.transactions(); parser.push(mergedTransactions.slice(0, -1)); expect(() => parser.end()).toThrow(); });
+		it("Truncated length", () => { const parser = StreamParser.transactions(); parser.push(Buffer.alloc(2)); expect(() => parser.end()).toThrow(); });
+	});
+
+	describe("Parse", () => {
+		it("Blocks", async () => expect((await collect(StreamParser.blocks().parse(split(mergedBlocks, 100)))).map((block) => block.getHash(prefix))).toEqual([block1.getHash(prefix), block2.getHash(prefix)]));
+		it("Async chunks", async () => expect((await collect(StreamParser.transactions().parse(asyncChunks(split(mergedTransactions, 33))))).length).toBe(3));
+		it("Nothing", async () => expect(await collect(StreamParser.blocks().parse([]))).toEqual([]));
+		it("Truncated", async () => await expectAsync(collect(StreamParser.blocks().parse(asyncChunks([mergedBlocks.slice(0, -5)])))).toBeRejected());
+		it("Too long length", async () => await expectAsync(collect(StreamParser.blocks(100).parse([mergedBlocks]))).toBeRejected());
+		it("Yield before error", async () => { const result: Block[] = []; await expectAsync((async () => { for await (const block of StreamParser.blocks().parse([Buffer.concat([mergedBlocks, Buffer.alloc(4)])])) { result.push(block); } })()).toBeRejected(); expect(result.length).toBe(2); });
+	});
+});
\ No newline at end of file
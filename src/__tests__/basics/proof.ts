@@ -0,0 +1,57 @@
+/* eslint-disable max-len */
+import { Block, BlockHeader, Crypto, InclusionProof, Merkle, PrivateKey, Transaction } from "../../index";
+
+describe("InclusionProof", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const otherKey = PrivateKey.generate();
+	const txs = [1, 2, 3, 4, 5].map((i) => Transaction.sign({ transaction_id: Buffer.alloc(16, i), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: `{"i":${i}}` }, prefix, privateKey));
+	const block = Block.sign({ block_id: 3, previous_block_hash: Buffer.alloc(32, 1), processed_ts: 123, transactions: Transaction.merge(txs), version: 2 }, prefix, privateKey);
+	const v1Block = Block.sign({ block_id: 3, previous_block_hash: Buffer.alloc(32, 1), processed_ts: 123, transactions: Transaction.merge(txs), version: 1 }, prefix, privateKey);
+	const proof = block.getInclusionProof(3);
+	const withHeader = (header: Buffer) => InclusionProof.create(BlockHeader.create(header, block.getSignature()), proof.index, proof.transactionsAmount, proof.getHashes(), proof.transaction.data);
+
+	describe("Create", () => {
+		it("Block id", () => expect(proof.header.id).toBe(3));
+		it("Processed ts", () => expect(proof.header.processedTs).toBe(123));
+		it("Index", () => expect(proof.index).toBe(3));
+		it("Transactions amount", () => expect(proof.transactionsAmount).toBe(5));
+		it("Transaction", () => expect(proof.transaction.data.equals(txs[3].data)).toBe(true));
+		it("Header", () => expect(proof.header.data).toEqual(block.getHeader().data));
+		it("Hashes", () => expect(proof.getHashes()).toEqual(Merkle.getProof(txs.map((tx) => Merkle.hashLeaf(tx.data)), 3)));
+		it("Block hash", () => expect(proof.header.getHash(prefix)).toEqual(block.getHash(prefix)));
+		it("Compact", () => expect(proof.totalLength).toBe(InclusionProof.emptyLength + 3 * 32 + txs[3].data.length));
+		it("Single transaction", () => expect(Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32), processed_ts: 1, transactions: txs[0].data, version: 2 }, prefix, privateKey).getInclusionProof(0).getHashes()).toEqual([]));
+		it("Invalid index", () => expect(() => block.getInclusionProof(5)).toThrow());
+		it("Invalid index", () => expect(() => block.getInclusionProof(-1)).toThrow());
+		it("Version 1", () => expect(() => v1Block.getInclusionProof(0)).toThrow());
+		it("Invalid hashes", () => expect(() => InclusionProof.create(proof.header, 0, 1, [Buffer.alloc(31)], proof.transaction.data)).toThrow());
+	});
+
+	describe("From buffer", () => {
+		it("Round trip", () => expect(new InclusionProof(proof.data).data).toEqual(proof.data));
+		it("Round trip", () => expect(new InclusionProof(Buffer.from(proof.data)).verify(prefix, privateKey)).toBe(true));
+		it("Too short", () => expect(() => new InclusionProof(proof.data.slice(0, InclusionProof.emptyLength + 4))).toThrow());
+		it("Invalid header", () => expect(() => new InclusionProof(Buffer.concat([proof.data.slice(0, 8), Crypto.uInt8ToBinary(1), proof.data.slice(9)]))).toThrow());
+		it("Invalid index", () => expect(() => InclusionProof.create(proof.header, 5, 5, proof.getHashes(), proof.transaction.data)).toThrow());
+		it("Too many hashes", () => expect(() => InclusionProof.create(proof.header, 3, 5, Array(256).fill(Buffer.alloc(32)), proof.transaction.data)).toThrow());
+		it("Wrong amount of hashes", () => expect(InclusionProof.create(proof.header, 3, 5, Array(50).fill(Buffer.alloc(32)), proof.transaction.data).verify(prefix, privateKey)).toBe(false));
+		it("Invalid transaction", () => expect(() => InclusionProof.create(proof.header, 3, 5, proof.getHashes(), Buffer.alloc(10))).toThrow());
+	});
+
+	describe("Verify", () => {
+		it("Valid", () => expect(proof.verify(prefix, privateKey)).toBe(true));
+		it("All transactions", () => expect(txs.map((_, i) => block.getInclusionProof(i).verify(prefix, privateKey))).toEqual([true, true, true, true, true]));
+		it("Inclusion", () => expect(proof.verifyInclusion()).toBe(true));
+		it("With header", () => expect(proof.verify(prefix, privateKey, block.getHeader())).toBe(true));
+		it("Other header", () => expect(proof.verify(prefix, privateKey, Block.sign({ block_id: 4, previous_block_hash: block.getHash(prefix), processed_ts: 124, transactions: Buffer.alloc(0), version: 2 }, prefix, privateKey).getHeader())).toBe(false));
+		it("Other prefix", () => expect(proof.verify(Buffer.from("other"), privateKey)).toBe(false));
+		it("Other key", () => expect(proof.verify(prefix, otherKey)).toBe(false));
+		it("Other transaction", () => expect(InclusionProof.create(proof.header, 3, 5, proof.getHashes(), txs[2].data).verify(prefix, privateKey)).toBe(false));
+		it("Other index", () => expect(InclusionProof.create(proof.header, 2, 5, proof.getHashes(), txs[3].data).verify(prefix, privateKey)).toBe(false));
+		it("Other amount", () => expect(InclusionProof.create(proof.header, 3, 4, proof.getHashes(), txs[3].data).verify(prefix, privateKey)).toBe(false));
+		it("Other hashes", () => expect(InclusionProof.create(proof.header, 3, 5, proof.getHashes().reverse(), txs[3].data).verify(prefix, privateKey)).toBe(false));
+		it("Other block id", () => expect(withHeader(Buffer.concat([block.data.slice(4, 5), Crypto.uLongToBinary(4), block.data.slice(13, 85)])).verify(prefix, privateKey)).toBe(false));
+		it("Other block id inclusion", () => expect(withHeader(Buffer.concat([block.data.slice(4, 5), Crypto.uLongToBinary(4), block.data.slice(13, 85)])).verifyInclusion()).toBe(true));
+	});
+});
\ No newline at end of file
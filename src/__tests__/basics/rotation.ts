@@ -0,0 +1,124 @@
+/* eslint-disable max-len */
+import { Block, BlockHeader, ChainVerifier, EquivocationProof, PrivateKey, ProcessorKeys, Transaction } from "../../index";
+
+describe("ProcessorKeys", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const newKey = PrivateKey.generate();
+	const otherKey = PrivateKey.generate();
+	const rotate = (fromBlock: number, key: PrivateKey = privateKey, publicKey: string = newKey.publicKey.toString("hex"), id: number = 1) => Transaction.sign({
+		transaction_id: Buffer.alloc(16, id), version: 1, contract_hash: ProcessorKeys.rotateKeyContractHash, valid_till: 0, payload: JSON.stringify({ publicKey, fromBlock })
+	}, prefix, key);
+	const tx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const next = (previous: Block | undefined, transactions: Buffer = tx.data, key: PrivateKey = privateKey) => Block.sign({
+		block_id: previous === undefined ? 0 : previous.id + 1, previous_block_hash: previous === undefined ? Buffer.alloc(32) : previous.getHash(prefix),
+		processed_ts: previous === undefined ? 100 : previous.processedTs + 1, transactions, version: 2
+	}, prefix, key);
+	const keysAfter = (block: Block) => {
+		const keys = new ProcessorKeys(privateKey);
+		keys.processBlock(prefix, block);
+		return keys;
+	};
+
+	describe("Keys", () => {
+		it("Initial key", () => expect(new ProcessorKeys(privateKey).getKey(1000)).toBe(privateKey));
+		it("Add key", () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.addKey(10, newKey);
+			keys.addKey(5, otherKey);
+			expect([0, 4, 5, 9, 10, 100].map((id) => keys.getKey(id))).toEqual([privateKey, privateKey, otherKey, otherKey, newKey, newKey]);
+		});
+		it("Replace key", () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.addKey(10, newKey);
+			keys.addKey(10, otherKey);
+			expect(keys.getKey(10)).toBe(otherKey);
+		});
+		it("Replace initial key", () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.addKey(0, newKey);
+			expect(keys.getKey(0)).toBe(newKey);
+		});
+		it("Invalid block id", () => expect(() => new ProcessorKeys(privateKey).addKey(-1, newKey)).toThrowError("Invalid block id."));
+		it("From rows", () => expect(ProcessorKeys.fromRows(privateKey, [{ from_block: 10, public_key: newKey.publicKey }, { from_block: 5, public_key: otherKey.publicKey }]).getKey(7).publicKey).toEqual(otherKey.publicKey));
+		it("From rows empty", () => expect(ProcessorKeys.fromRows(privateKey, []).getKey(7)).toBe(privateKey));
+		it("From rows invalid key", () => expect(() => ProcessorKeys.fromRows(privateKey, [{ from_block: 10, public_key: Buffer.alloc(33) }])).toThrow());
+		it("Invalid block id fraction", () => expect(() => new ProcessorKeys(privateKey).addKey(1.5, newKey)).toThrowError("Invalid block id."));
+	});
+
+	describe("Reject reason", () => {
+		const publicKey = newKey.publicKey.toString("hex");
+		it("Valid", () => expect(ProcessorKeys.getRejectReason({ publicKey, fromBlock: 11 }, privateKey.getAddress(), privateKey.getAddress(), 10)).toBeUndefined());
+		it("Not processor", () => expect(ProcessorKeys.getRejectReason({ publicKey, fromBlock: 11 }, otherKey.getAddress(), privateKey.getAddress(), 10)).toBe("User is not allowed to rotate the processor key."));
+		it("Multi-signature", () => expect(ProcessorKeys.getRejectReason({ publicKey, fromBlock: 11 }, [privateKey.getAddress()], privateKey.getAddress(), 10)).toBe("User is not allowed to rotate the processor key."));
+		it("Invalid key", () => expect(ProcessorKeys.getRejectReason({ publicKey: "05" + publicKey.slice(2), fromBlock: 11 }, privateKey.getAddress(), privateKey.getAddress(), 10)).toBe("Invalid public key."));
+		it("Not hex", () => expect(ProcessorKeys.getRejectReason({ publicKey: "zz", fromBlock: 11 }, privateKey.getAddress(), privateKey.getAddress(), 10)).toBe("Invalid public key."));
+		it("Current block", () => expect(ProcessorKeys.getRejectReason({ publicKey, fromBlock: 10 }, privateKey.getAddress(), privateKey.getAddress(), 10)).toBe("Processor key can only be rotated for future blocks."));
+		it("Unsafe block", () => expect(ProcessorKeys.getRejectReason({ publicKey, fromBlock: 2 ** 53 }, privateKey.getAddress(), privateKey.getAddress(), 10)).toBe("Processor key can only be rotated for future blocks."));
+	});
+
+	describe("Process block", () => {
+		it("Rotation", () => expect(keysAfter(next(undefined, Transaction.merge([tx, rotate(2)]))).getKey(2).publicKey).toEqual(newKey.publicKey));
+		it("Before rotation", () => expect(keysAfter(next(undefined, Transaction.merge([tx, rotate(2)]))).getKey(1)).toBe(privateKey));
+		it("Last rotation", () => expect(keysAfter(next(undefined, Transaction.merge([rotate(2, privateKey, otherKey.publicKey.toString("hex")), rotate(2, privateKey, newKey.publicKey.toString("hex"), 2)]))).getKey(2).publicKey).toEqual(newKey.publicKey));
+		it("Not processor", () => expect(keysAfter(next(undefined, rotate(2, otherKey).data)).getKey(2)).toBe(privateKey));
+		it("Current block", () => expect(keysAfter(next(undefined, rotate(0).data)).getKey(0)).toBe(privateKey));
+		it("Invalid key", () => expect(keysAfter(next(undefined, rotate(2, privateKey, "05" + newKey.publicKey.toString("hex").slice(2)).data)).getKey(2)).toBe(privateKey));
+		it("Invalid payload", () => expect(keysAfter(next(undefined, Transaction.sign({ transaction_id: Buffer.alloc(16, 1), version: 1, contract_hash: ProcessorKeys.rotateKeyContractHash, valid_till: 0, payload: JSON.stringify({ publicKey: newKey.publicKey.toString("hex") }) }, prefix, privateKey).data)).getKey(2)).toBe(privateKey));
+		it("Invalid signature", () => {
+			const data = Buffer.from(rotate(2).data);
+			data[data.length - 40] ^= 1;
+			expect(keysAfter(next(undefined, data)).getKey(2)).toBe(privateKey);
+		});
+		it("Other prefix", () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.processBlock(Buffer.from("other"), next(undefined, rotate(2).data));
+			expect(keys.getKey(2)).toBe(privateKey);
+		});
+		it("Other contract", () => expect(keysAfter(next(undefined, Transaction.sign({ transaction_id: Buffer.alloc(16, 1), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: JSON.stringify({ publicKey: newKey.publicKey.toString("hex"), fromBlock: 2 }) }, prefix, privateKey).data)).getKey(2)).toBe(privateKey));
+	});
+
+	describe("Verify chain", () => {
+		const chain: Block[] = [next(undefined)];
+		chain.push(next(chain[0], Transaction.merge([tx, rotate(3)])));
+		chain.push(next(chain[1]));
+		chain.push(next(chain[2], tx.data, newKey));
+		chain.push(next(chain[3], tx.data, newKey));
+		it("Valid", async () => expect(await ChainVerifier.verify(prefix, new ProcessorKeys(privateKey), chain)).toEqual({ valid: true, blocks: 5, transactions: 6, lastBlockId: 4 }));
+		it("Keys afterwards", async () => {
+			const keys = new ProcessorKeys(privateKey);
+			await ChainVerifier.verify(prefix, keys, chain);
+			expect(keys.getKey(4).publicKey).toEqual(newKey.publicKey);
+		});
+		it("With previous", async () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.addKey(3, newKey);
+			expect((await ChainVerifier.verify(prefix, keys, chain.slice(3), chain[2])).valid).toBe(true);
+		});
+		it("Without rotation", async () => expect((await ChainVerifier.verify(prefix, privateKey, chain)).failure).toEqual({ reason: "Invalid signature.", blockId: 3, offset: Block.merge(chain.slice(0, 3)).length }));
+		it("Old key after rotation", async () => expect((await ChainVerifier.verify(prefix, new ProcessorKeys(privateKey), [...chain.slice(0, 3), next(chain[2])])).failure!.blockId).toBe(3));
+		it("Rotation not by processor", async () => {
+			const blocks = [chain[0], next(chain[0], rotate(3, otherKey).data)];
+			blocks.push(next(blocks[1]));
+			blocks.push(next(blocks[2], tx.data, newKey));
+			expect((await ChainVerifier.verify(prefix, new ProcessorKeys(privateKey), blocks)).failure!.reason).toBe("Invalid signature.");
+		});
+		it("Rotation in invalid block", async () => {
+			const keys = new ProcessorKeys(privateKey);
+			await ChainVerifier.verify(prefix, keys, [chain[0], next(chain[0], rotate(3).data, otherKey)]);
+			expect(keys.getKey(3)).toBe(privateKey);
+		});
+		it("Headers", () => {
+			const keys = new ProcessorKeys(privateKey);
+			keys.addKey(3, newKey);
+			expect(BlockHeader.verifyChain(prefix, keys, chain.map((block) => block.getHeader()))).toBe(5);
+		});
+		it("Inclusion proof", () => expect(chain[3].getInclusionProof(0).verify(prefix, keysAfter(chain[1]))).toBe(true));
+		it("Inclusion proof before rotation", () => expect(chain[2].getInclusionProof(0).verify(prefix, keysAfter(chain[1]))).toBe(true));
+		it("Inclusion proof without rotation", () => expect(chain[3].getInclusionProof(0).verify(prefix, new ProcessorKeys(privateKey))).toBe(false));
+		it("Equivocation", () => expect(EquivocationProof.detect(prefix, keysAfter(chain[1]), chain[3], next(chain[2], Transaction.merge([tx, tx]), newKey))).toBeDefined());
+		it("Equivocation with old key", () => expect(EquivocationProof.detect(prefix, keysAfter(chain[1]), next(chain[2], Transaction.merge([tx, tx])), next(chain[2], tx.data))).toBeUndefined());
+		it("Equivocation verify", () => expect(EquivocationProof.create(chain[3], next(chain[2], Transaction.merge([tx, tx]), newKey)).verify(prefix, keysAfter(chain[1]))).toBe(true));
+		it("Headers without rotation", () => expect(BlockHeader.verifyChain(prefix, new ProcessorKeys(privateKey), chain.map((block) => block.getHeader()))).toBe(3));
+	});
+});
\ No newline at end of file
@@ -0,0 +1,73 @@
+/* eslint-disable max-len */
+import { Schema, Template } from "../../index";
+
+describe("Schema", () => {
+	const template: Template = {
+		a: { type: "bool", name: "A", desc: "Description" },
+		b: { type: "uint", maximum: 10 },
+		c: { type: "int", minimum: -5 },
+		d: { type: "float" },
+		e: { type: "strArray", maxItems: 3, maxLength: 4 },
+		f: { type: "hash" },
+		g: { type: "addr?" },
+		h: { type: "str", pattern: "^a", enum: ["ab", "ac"] }
+	};
+	const templateV3: Template = {
+		a: { type: "obj", template: { b: { type: "int" }, c: { type: "uuid?" } } },
+		d: { type: "tuple", items: [{ type: "bool" }, { type: "decimal", scale: 2 }] },
+		e: { type: "hex", pattern: "^ab" },
+		f: { type: "timestamp" },
+		g: { type: "bigintArray" }
+	};
+
+	describe("From template", () => {
+		const schema = Schema.fromTemplate(template, 2);
+		it("Draft", () => expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema"));
+		it("Object", () => expect(schema.type).toBe("object"));
+		it("Extra keys", () => expect(schema.additionalProperties).toBe(false));
+		it("Required", () => expect(schema.required).toEqual(["a", "b", "c", "d", "e", "f", "h"]));
+		it("Name and description", () => expect(schema.properties!.a).toEqual({ type: "boolean", title: "A", description: "Description" }));
+		it("Uint", () => expect(schema.properties!.b).toEqual({ type: "integer", minimum: 0, maximum: 10 }));
+		it("Int", () => expect(schema.properties!.c).toEqual({ type: "integer", minimum: -5, maximum: Number.MAX_SAFE_INTEGER }));
+		it("Array", () => expect(schema.properties!.e).toEqual({ type: "array", items: { type: "string", maxLength: 4 }, maxItems: 3 }));
+		it("Pattern", () => expect(schema.properties!.f.pattern).toBe("^[0-9A-Fa-f]{64}$"));
+		it("Enum", () => expect(schema.properties!.h).toEqual({ type: "string", pattern: "^a", enum: ["ab", "ac"] }));
+		it("Optional version 1", () => expect(Schema.fromTemplate(template, 1).required).toContain("g"));
+		it("Optional version 1", () => expect(Schema.fromTemplate(template, 1).properties!.g).toEqual({ type: "string" }));
+		it("Json version 1", () => expect(Schema.fromTemplate({ a: { type: "json" } }, 1).properties!.a).toEqual({ type: "string", contentMediaType: "application/json" }));
+		it("Json version 2", () => expect(Schema.fromTemplate({ a: { type: "json" } }, 2).properties!.a).toEqual({}));
+		it("Id version 1", () => expect(Schema.fromTemplate({ a: { type: "id" } }, 1).properties!.a).toEqual({ type: "string" }));
+		it("Id version 2", () => expect(Schema.fromTemplate({ a: { type: "id" } }, 2).properties!.a.pattern).toBe("^[0-9A-Fa-f]{32}$"));
+		it("Version 3 type in version 2", () => expect(Schema.fromTemplate(templateV3, 2).properties!.a).toEqual({ type: "string" }));
+		it("Version 3 type in version 2", () => expect(Schema.fromTemplate(templateV3, 2).properties!.g).toEqual({ type: "array", items: { type: "string" } }));
+
+		const schemaV3 = Schema.fromTemplate(templateV3, 3);
+		it("Nested object", () => expect(schemaV3.properties!.a.properties!.b.type).toBe("integer"));
+		it("Nested object", () => expect(schemaV3.properties!.a.required).toEqual(["b"]));
+		it("Tuple", () => expect(schemaV3.properties!.d.prefixItems!.length).toBe(2));
+		it("Tuple", () => expect(schemaV3.properties!.d.items).toBe(false));
+		it("Decimal scale", () => expect(new RegExp(schemaV3.properties!.d.prefixItems![1].pattern!).test("1.23")).toBe(true));
+		it("Decimal scale", () => expect(new RegExp(schemaV3.properties!.d.prefixItems![1].pattern!).test("1.234")).toBe(false));
+		it("Decimal scale 0", () => expect(new RegExp(Schema.fromTemplate({ a: { type: "decimal", scale: 0 } }, 3).properties!.a.pattern!).test("123")).toBe(true));
+		it("Decimal scale 0", () => expect(new RegExp(Schema.fromTemplate({ a: { type: "decimal", scale: 0 } }, 3).properties!.a.pattern!).test("1.2")).toBe(false));
+		it("Pattern and type pattern", () => expect(schemaV3.properties!.e.allOf).toEqual([{ pattern: "^ab" }]));
+		it("Format", () => expect(schemaV3.properties!.f.format).toBe("date-time"));
+	});
+
+	describe("To template", () => {
+		it("Round trip version 2", () => expect(Schema.toTemplate(Schema.fromTemplate(template, 2), 2)).toEqual(template));
+		it("Round trip version 3", () => expect(Schema.toTemplate(Schema.fromTemplate(templateV3, 3), 3)).toEqual(templateV3));
+		it("Round trip decimal scale 0", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "decimal", scale: 0 } }, 3), 3)).toEqual({ a: { type: "decimal", scale: 0 } }));
+		it("Round trip bigint", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "bigint" } }, 3), 3)).toEqual({ a: { type: "bigint" } }));
+		it("Round trip json version 1", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "json" } }, 1), 1)).toEqual({ a: { type: "json" } }));
+		it("Round trip json version 2", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "json?" } }, 2), 2)).toEqual({ a: { type: "json?" } }));
+		it("Id version 1", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "id" } }, 2), 1)).toEqual({ a: { type: "str", pattern: "^[0-9A-Fa-f]{32}$" } }));
+		it("Version 3 types in version 2", () => expect(Schema.toTemplate(Schema.fromTemplate({ a: { type: "uuid" } }, 3), 2)).toEqual({ a: { type: "str" } }));
+		it("Not an object", () => expect(() => Schema.toTemplate({ type: "string" }, 2)).toThrow());
+		it("Optional version 1", () => expect(() => Schema.toTemplate({ type: "object", properties: { a: { type: "string" } } }, 1)).toThrow());
+		it("Optional array", () => expect(() => Schema.toTemplate({ type: "object", properties: { a: { type: "array", items: { type: "string" } } } }, 2)).toThrow());
+		it("Nested array", () => expect(() => Schema.toTemplate({ type: "object", properties: { a: { type: "array", items: { type: "array", items: { type: "string" } } } }, required: ["a"] }, 3)).toThrow());
+		it("Object version 2", () => expect(() => Schema.toTemplate({ type: "object", properties: { a: { type: "object", properties: {} } }, required: ["a"] }, 2)).toThrow());
+		it("Any value version 1", () => expect(() => Schema.toTemplate({ type: "object", properties: { a: {} }, required: ["a"] }, 1)).toThrow());
+	});
+});
\ No newline at end of file
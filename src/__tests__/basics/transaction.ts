@@ -1,5 +1,6 @@
 /* eslint-disable max-len */
-import { Transaction, UnsignedTx, PrivateKey, Crypto, ContractVersion, DBTransaction } from "../../index";
+import { deflateRawSync } from "zlib";
+import { Transaction, UnsignedTx, PrivateKey, Crypto, ContractVersion, DBTransaction, PayloadEncoding } from "../../index";
 
 describe("Transaction", () => {
 	it("Transaction generate id", () => expect(Transaction.generateId().length).toBe(16));
@@ -147,8 +148,54 @@ describe("Transaction", () => {
 		it("Unmerging too short", () => expect(() => Transaction.unmerge(Crypto.uInt32ToBinary(9999))).toThrow());
 	});
 
+	describe("Multi-signature", () => {
+		const privateKey2 = PrivateKey.generate();
+		const privateKey3 = PrivateKey.generate();
+		const unsignedMultiSig: UnsignedTx = {
+			transaction_id: Buffer.alloc(16, 4), version: 2, contract_hash: Buffer.alloc(32, 8), valid_till: 123, payload: '{"key":"value"}',
+			threshold: 2, public_keys: [privateKey.publicKey, privateKey2.publicKey, privateKey3.publicKey]
+		};
+		const multiTx1 = Transaction.sign(unsignedMultiSig, prefix, privateKey3);
+		const multiTx2 = Transaction.sign(multiTx1, prefix, privateKey);
+		it("Threshold", () => expect(multiTx2.threshold).toBe(2));
+		it("Public keys", () => expect(multiTx2.getPublicKeys()).toEqual(unsignedMultiSig.public_keys!));
+		it("Payload", () => expect(multiTx2.getPayloadJson()).toEqual({ key: "value" }));
+		it("Payload length", () => expect(multiTx2.payloadLength).toBe(Buffer.from('{"key":"value"}').length));
+		it("Signatures are sorted", () => expect(multiTx2.getSignatures().map((signature) => signature.index)).toEqual([0, 2]));
+		it("Signer addresses", () => expect(multiTx2.getSignerAddresses()).toEqual([privateKey.getAddress(), privateKey3.getAddress()]));
+		it("Below threshold", () => expect(multiTx1.verifySignature(prefix)).toBe(false));
+		it("Threshold reached", () => expect(multiTx2.verifySignature(prefix)).toBe(true));
+		it("Above threshold", () => expect(Transaction.sign(multiTx2, prefix, privateKey2).verifySignature(prefix)).toBe(true));
+		it("Wrong prefix", () => expect(multiTx2.verifySignature(Buffer.from("wrong"))).toBe(false));
+		it("Single signature methods", () => expect(() => multiTx2.getAddress()).toThrow());
+		it("Sign twice", () => expect(() => Transaction.sign(multiTx2, prefix, privateKey)).toThrow());
+		it("Sign with other key", () => expect(() => Transaction.sign(multiTx2, prefix, PrivateKey.generate())).toThrow());
+		it("Sign single signature transaction again", () => expect(() => Transaction.sign(tx, prefix, privateKey)).toThrow());
+		it("Invalid threshold", () => expect(() => Transaction.sign(Object.assign({}, unsignedMultiSig, { threshold: 4 }), prefix, privateKey)).toThrow());
+		it("Invalid threshold", () => expect(() => Transaction.sign(Object.assign({}, unsignedMultiSig, { threshold: 0 }), prefix, privateKey)).toThrow());
+		it("Duplicate public key", () => expect(() => Transaction.sign(Object.assign({}, unsignedMultiSig, { public_keys: [privateKey.publicKey, privateKey.publicKey] }), prefix, privateKey)).toThrow());
+		it("Too many public keys", () => expect(() => Transaction.sign(Object.assign({}, unsignedMultiSig, {
+			public_keys: new Array(Transaction.maxSigners + 1).fill(0).map(() => PrivateKey.generate().publicKey)
+		}), prefix, privateKey)).toThrow());
+		it("From buffer", () => expect(new Transaction(multiTx2.data).verifySignature(prefix)).toBe(true));
+		it("From db", () => expect(new Transaction(Object.assign({
+			signature: Buffer.concat(multiTx2.getSignatures().map((signature) => Buffer.concat([Crypto.uInt8ToBinary(signature.index), signature.signature]))),
+			public_key: Buffer.alloc(0)
+		}, unsignedMultiSig)).data.equals(multiTx2.data)).toBe(true));
+		it("Signature data", () => expect(new Transaction(Object.assign({ signature: multiTx2.getSignatureData(), public_key: Buffer.alloc(0) }, unsignedMultiSig)).data).toEqual(multiTx2.data));
+		it("Signature data", () => expect(multiTx2.getSignatureData().length).toBe(2 * 65));
+		it("Signature data single signature", () => expect(tx.getSignatureData()).toEqual(tx.getSignature()));
+		it("Invalid signature index", () => expect(() => new Transaction(Object.assign({
+			signature: Buffer.concat([Crypto.uInt8ToBinary(3), Buffer.alloc(64)]), public_key: Buffer.alloc(0)
+		}, unsignedMultiSig))).toThrow());
+		it("Merge and unmerge", () => expect(Transaction.unmerge(Transaction.merge([tx, multiTx2]))[1].data.equals(multiTx2.data)).toBe(true));
+	});
+
+	//Transactions to validate a payload against a template, given as json or as string.
+	const transactionBase = { valid_till: 0, version: 1, signature: Buffer.alloc(64), transaction_id: Buffer.alloc(16), contract_hash: Buffer.alloc(32), public_key: PrivateKey.generate().publicKey };
+	const createTx = (payload: object | string): Transaction => new Transaction(Object.assign({ payload: typeof payload === "string" ? payload : JSON.stringify(payload) }, transactionBase));
+
 	describe("Transaction template validation", () => {
-		const transactionBase = { valid_till: 0, version: 1, signature: Buffer.alloc(64), transaction_id: Buffer.alloc(16), contract_hash: Buffer.alloc(32), public_key: PrivateKey.generate().publicKey };
 		const template1 = {
 			a: { type: "bool" }, b: { type: "int" }, c: { type: "uint" }, d: { type: "float" }, e: { type: "addr" },
 			g: { type: "str" }, h: { type: "hex" }, i: { type: "base64" }, j: { type: "hash" }, l: { type: "ajw+!&^%!334f" }
@@ -181,7 +228,7 @@ describe("Transaction", () => {
 		const payload3c = JSON.stringify({});
 
 		//For all template where the version should produce the same
-		for (const version of [1, 2] as ContractVersion[]) {
+		for (const version of [1, 2, 3] as ContractVersion[]) {
 			it(`Invalid transaction payload1a for version: ${version}`, () => expect(new Transaction(Object.assign({ payload: payload1a }, transactionBase)).verifyTemplate(template1, version)).toBe(undefined));
 			it(`Invalid transaction payload1b for version: ${version}`, () => expect(new Transaction(Object.assign({ payload: payload1b }, transactionBase)).verifyTemplate(template1, version)).toBe(undefined));
 			it(`Invalid transaction payload1c for version: ${version}`, () => expect(new Transaction(Object.assign({ payload: payload1c }, transactionBase)).verifyTemplate(template1, version)).toBe(undefined));
@@ -288,4 +335,295 @@ describe("Transaction", () => {
 			}
 		}
 	});
+
+	describe("Template constraints", () => {
+		const template = {
+			a: { type: "int", minimum: -5, maximum: 5 }, b: { type: "str", minLength: 2, maxLength: 4, pattern: "^[a-z]+$" },
+			c: { type: "str?", enum: ["x", "y"] }, d: { type: "uintArray", maxItems: 2, maximum: 10 }
+		};
+		const valid = { a: 0, b: "ab", c: "x", d: [1, 10] };
+		it("Valid payload", () => expect(createTx(valid).verifyTemplate(template, 3)).toBe(undefined));
+		it("Valid optional", () => expect(createTx({ a: 5, b: "abcd", d: [] }).verifyTemplate(template, 3)).toBe(undefined));
+		it("Below minimum", () => expect(createTx(Object.assign({}, valid, { a: -6 })).verifyTemplate(template, 3)).toBe("Payload has value below minimum"));
+		it("Above maximum", () => expect(createTx(Object.assign({}, valid, { a: 6 })).verifyTemplate(template, 3)).toBe("Payload has value above maximum"));
+		it("Too short", () => expect(createTx(Object.assign({}, valid, { b: "a" })).verifyTemplate(template, 3)).toBe("Payload has value below minimum length"));
+		it("Too long", () => expect(createTx(Object.assign({}, valid, { b: "abcde" })).verifyTemplate(template, 3)).toBe("Payload has value above maximum length"));
+		it("Pattern", () => expect(createTx(Object.assign({}, valid, { b: "AB" })).verifyTemplate(template, 3)).toBe("Payload has value not matching pattern"));
+		it("Enum", () => expect(createTx(Object.assign({}, valid, { c: "z" })).verifyTemplate(template, 3)).toBe("Payload has value not in enum"));
+		it("Max items", () => expect(createTx(Object.assign({}, valid, { d: [1, 2, 3] })).verifyTemplate(template, 3)).toBe("Payload has too many items in array"));
+		it("Constraint in array", () => expect(createTx(Object.assign({}, valid, { d: [11] })).verifyTemplate(template, 3)).toBe("Payload has value above maximum in array"));
+		it("Type before constraint", () => expect(createTx(Object.assign({}, valid, { a: "1" })).verifyTemplate(template, 3)).toBe("Payload has invalid or missing int type"));
+		it("Older versions", () => expect(createTx(Object.assign({}, valid, { a: 6, d: [1, 2, 11] })).verifyTemplate(template, 2)).toBe(undefined));
+		it("Optional in version 1", () => expect(createTx({ a: "5" }).verifyTemplate({ a: { type: "int?", minimum: 10 } }, 1)).toBe(undefined));
+	});
+
+	describe("Safe patterns", () => {
+		for (const pattern of ["^[a-z]+$", "^https://", "^\\d+\\.\\d*$", "^(ab)+c?$", "^[+*]+(?:xy){2,3}$", "^[\\]+]+-\\(+$", "^(?<year>[0-9]{4})-[0-9]{2}$", "a|b*"]) {
+			it(`Safe ${pattern}`, () => expect(Transaction.isSafePattern(pattern)).toBe(true));
+		}
+		for (const pattern of ["^(a|aa)*$", "^(?:a*b)*$", "^((ab)*c)+$", "^(a{1,})?$", "^a*a*$", "^\\w+\\s*\\d+$", "a+(b+)", "(a+)b+", "^a{2,}.+$", "^(a)\\1$", "^a+?a*$"]) {
+			it(`Unsafe ${pattern}`, () => expect(Transaction.isSafePattern(pattern)).toBe(false));
+		}
+		it("Slow pattern", () => expect(Transaction.isSafePattern("^(a+)+$")).toBe(false));
+	});
+
+	describe("Nested templates", () => {
+		const template = {
+			customer: { type: "obj", template: { name: { type: "str" }, address: { type: "obj?", template: { city: { type: "str" } } } } },
+			lines: { type: "objArray", maxItems: 2, template: { amount: { type: "uint", maximum: 100 }, description: { type: "str" } } },
+			point: { type: "tuple", items: [{ type: "float" }, { type: "float" }] }
+		};
+		const valid = { customer: { name: "a", address: { city: "b" } }, lines: [{ amount: 1, description: "c" }], point: [1.5, 2] };
+		it("Valid payload", () => expect(createTx(valid).verifyTemplate(template, 3)).toBe(undefined));
+		it("Valid optional object", () => expect(createTx(Object.assign({}, valid, { customer: { name: "a" } })).verifyTemplate(template, 3)).toBe(undefined));
+		it("Not an object", () => expect(createTx(Object.assign({}, valid, { customer: [] })).verifyTemplate(template, 3)).toBe("Payload has invalid or missing object type"));
+		it("Extra key in object", () => expect(createTx(Object.assign({}, valid, { customer: { name: "a", b: 1 } })).verifyTemplate(template, 3)).toBe("Payload has extra key in object"));
+		it("Invalid nested object", () => expect(createTx(Object.assign({}, valid, { customer: { name: "a", address: { city: 1 } } })).verifyTemplate(template, 3)).toBe("Payload has invalid or missing string type"));
+		it("Invalid object in array", () => expect(createTx(Object.assign({}, valid, { lines: [{ amount: 101, description: "c" }] })).verifyTemplate(template, 3)).toBe("Payload has value above maximum in array"));
+		it("Too short tuple", () => expect(createTx(Object.assign({}, valid, { point: [1] })).verifyTemplate(template, 3)).toBe("Payload has invalid or missing tuple type"));
+		it("Invalid tuple item", () => expect(createTx(Object.assign({}, valid, { point: [1, "2"] })).verifyTemplate(template, 3)).toBe("Payload has invalid or missing float type in tuple"));
+		it("Older versions", () => expect(createTx(valid).verifyTemplate(template, 2)).toBe("Payload has invalid or missing string type"));
+	});
+
+	describe("Version 3 primitive types", () => {
+		const verify = (type: string, value: unknown, version: ContractVersion = 3, scale?: number): string | undefined =>
+			createTx({ a: value }).verifyTemplate({ a: { type, scale } }, version);
+		for (const value of ["0", "-12345678901234567890123456789", "98765432109876543210"]) {
+			it(`Valid bigint ${value}`, () => expect(verify("bigint", value)).toBe(undefined));
+		}
+		for (const value of [1, "01", "-0.1", "1e5", "+1", ""]) {
+			it(`Invalid bigint ${value}`, () => expect(verify("bigint", value)).toBe("Payload has invalid or missing bigint type"));
+		}
+		for (const value of ["0", "-0.5", "123.4500", "10"]) {
+			it(`Valid decimal ${value}`, () => expect(verify("decimal", value)).toBe(undefined));
+		}
+		for (const value of [0.5, ".5", "1.", "00.1", "1,5", "1e5"]) {
+			it(`Invalid decimal ${value}`, () => expect(verify("decimal", value)).toBe("Payload has invalid or missing decimal type"));
+		}
+		it("Decimal within scale", () => expect(verify("decimal", "1.25", 3, 2)).toBe(undefined));
+		it("Decimal outside scale", () => expect(verify("decimal", "1.255", 3, 2)).toBe("Payload has invalid or missing decimal type"));
+		for (const value of ["2020-02-29T23:59:59Z", "2021-12-31T00:00:00.123+01:00", "1999-01-01T12:30:00.123456789-12:00"]) {
+			it(`Valid timestamp ${value}`, () => expect(verify("timestamp", value)).toBe(undefined));
+		}
+		for (const value of ["2021-02-29T00:00:00Z", "2021-13-01T00:00:00Z", "2021-01-01T24:00:00Z", "2021-01-01T00:00:00", "2021-01-01", "2021-01-01T00:00:00+24:00", 1577836800000]) {
+			it(`Invalid timestamp ${value}`, () => expect(verify("timestamp", value)).toBe("Payload has invalid or missing timestamp type"));
+		}
+		it("Valid uuid", () => expect(verify("uuid", "123e4567-e89b-12d3-A456-426614174000")).toBe(undefined));
+		it("Invalid uuid", () => expect(verify("uuid", "123e4567e89b12d3a456426614174000")).toBe("Payload has invalid or missing uuid type"));
+		for (const value of ["https://validana.io", "http://localhost:8080/path?query=1#hash", "ftp://user@host/file"]) {
+			it(`Valid url ${value}`, () => expect(verify("url", value)).toBe(undefined));
+		}
+		for (const value of ["validana.io", "https://", "https://vali dana.io", "https:///path"]) {
+			it(`Invalid url ${value}`, () => expect(verify("url", value)).toBe("Payload has invalid or missing url type"));
+		}
+		for (const value of ["info@coinversable.com", "first.last+tag@sub.example.org"]) {
+			it(`Valid email ${value}`, () => expect(verify("email", value)).toBe(undefined));
+		}
+		for (const value of ["coinversable.com", "a@b@c", "a@-b.com", "a b@c.com"]) {
+			it(`Invalid email ${value}`, () => expect(verify("email", value)).toBe("Payload has invalid or missing email type"));
+		}
+		it("Strings in older versions", () => expect(verify("bigint", "not a number", 2)).toBe(undefined));
+		it("Array of new type", () => expect(createTx({ a: ["1", "x"] }).verifyTemplate({ a: { type: "bigintArray" } }, 3)).toBe("Payload has invalid or missing bigint type in array"));
+	});
+
+	describe("Template violations", () => {
+		const template = {
+			name: { type: "str", minLength: 1 },
+			items: { type: "objArray", template: { amount: { type: "uint" }, description: { type: "str" } } },
+			"weird key": { type: "bool?" }
+		};
+		const payload = JSON.stringify({ name: "", items: [{ amount: 1, description: "a" }, { amount: -1 }], "weird key": "yes", extra: null });
+		it("Invalid json", () => expect(createTx("[]").getTemplateViolations(template, 3)).toEqual([{ path: "", expected: "object", actual: "array", message: "Payload is invalid json." }]));
+		it("Unparsable json", () => expect(createTx("{").getTemplateViolations(template, 3)[0].actual).toBe("invalid json"));
+		it("Valid payload", () => expect(createTx(JSON.stringify({ name: "a", items: [] })).getTemplateViolations(template, 3)).toEqual([]));
+		it("All violations", () => expect(createTx(payload).getTemplateViolations(template, 3)).toEqual([
+			{ path: "extra", expected: "no key", actual: "null", message: "Payload has extra key." },
+			{ path: "name", expected: "minLength 1", actual: "string", message: "Payload has value below minimum length" },
+			{ path: "items[1].amount", expected: "uint", actual: "number", message: "Payload has invalid or missing uint type in array" },
+			{ path: "items[1].description", expected: "str", actual: "undefined", message: "Payload has invalid or missing string type in array" },
+			{ path: '["weird key"]', expected: "bool", actual: "string", message: "Payload has invalid or missing boolean type" }
+		]));
+		it("First violation only", () => expect(createTx(payload).getTemplateViolations(template, 3, false).length).toBe(1));
+		it("Same as verify template", () => expect(createTx(payload).verifyTemplate(template, 3)).toBe("Payload has extra key."));
+	});
+
+	describe("JSON representation", () => {
+		const json = tx.toJSON();
+		const multiSigTx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 2, contract_hash: Buffer.alloc(32, 8), valid_till: 123, payload: '{"key":"value"}', threshold: 1, public_keys: [PrivateKey.generate().publicKey, privateKey.publicKey] }, prefix, privateKey);
+		const spacedTx = Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{ "key": "value" }' }), prefix, privateKey);
+		const invalidUtf8Tx = Transaction.sign(Buffer.concat([Buffer.alloc(4), tx.data.slice(4, 61), Buffer.from([0xFF, 0xFE])]), prefix, privateKey);
+		it("Id", () => expect(json.transaction_id).toBe("04".repeat(16)));
+		it("Contract hash", () => expect(json.contract_hash).toBe("08".repeat(32)));
+		it("Valid till", () => expect(json.valid_till).toBe(123));
+		it("Payload", () => expect(json.payload).toEqual({ key: "value" }));
+		it("Payload", () => expect(json.payload_hex).toBeUndefined());
+		it("Address", () => expect(json.from).toBe(privateKey.getAddress()));
+		it("Signature", () => expect(json.signature).toBe(tx.getSignature().toString("hex")));
+		it("Stringify", () => expect(JSON.parse(JSON.stringify(tx))).toEqual(json));
+		it("Round trip", () => expect(Transaction.fromJSON(json).data).toEqual(tx.data));
+		it("Round trip string", () => expect(Transaction.fromJSON(JSON.parse(JSON.stringify(tx))).data).toEqual(tx.data));
+		it("Round trip whitespace", () => expect(spacedTx.toJSON().payload_hex).toBe(Buffer.from('{ "key": "value" }').toString("hex")));
+		it("Round trip whitespace", () => expect(Transaction.fromJSON(spacedTx.toJSON()).data).toEqual(spacedTx.data));
+		it("Round trip invalid payload", () => expect(Transaction.fromJSON(invalidUtf8Tx.toJSON()).data).toEqual(invalidUtf8Tx.data));
+		it("Round trip multi-signature", () => expect(Transaction.fromJSON(multiSigTx.toJSON()).data).toEqual(multiSigTx.data));
+		it("Multi-signature", () => expect(multiSigTx.toJSON().signatures).toEqual([{ index: 1, from: privateKey.getAddress(), signature: multiSigTx.getSignatures()[0].signature.toString("hex") }]));
+		it("Multi-signature", () => expect(multiSigTx.toJSON().from).toBeUndefined());
+		it("Cached payload unchanged", () => expect(tx.toJSON().payload === tx.getPayloadJson()).toBe(false));
+		it("Wrong address", () => expect(() => Transaction.fromJSON(Object.assign({}, json, { from: PrivateKey.generate().getAddress() }))).toThrow());
+		it("Invalid id", () => expect(() => Transaction.fromJSON(Object.assign({}, json, { transaction_id: "0404" }))).toThrow());
+		it("Invalid hex", () => expect(() => Transaction.fromJSON(Object.assign({}, json, { contract_hash: "zz".repeat(32) }))).toThrow());
+		it("Both payloads", () => expect(() => Transaction.fromJSON(Object.assign({}, json, { payload_hex: "" }))).toThrow());
+		it("No payload", () => expect(() => Transaction.fromJSON(Object.assign({}, json, { payload: undefined }))).toThrow());
+	});
+
+	describe("Canonical payload", () => {
+		it("Canonical", () => expect(tx.isCanonicalPayload()).toBe(true));
+		it("Whitespace", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{ "key": "value" }' }), prefix, privateKey).isCanonicalPayload()).toBe(false));
+		it("Key order", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{"b":1,"a":2}' }), prefix, privateKey).isCanonicalPayload()).toBe(false));
+		it("Sorted keys", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{"a":2,"b":1}' }), prefix, privateKey).isCanonicalPayload()).toBe(true));
+		it("Number format", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{"a":1.0}' }), prefix, privateKey).isCanonicalPayload()).toBe(false));
+		it("Duplicate key", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: '{"a":1,"a":1}' }), prefix, privateKey).isCanonicalPayload()).toBe(false));
+		it("Invalid json", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { payload: "invalid" }), prefix, privateKey).isCanonicalPayload()).toBe(false));
+	});
+
+	describe("Validity window", () => {
+		const unsignedV3: UnsignedTx = Object.assign({}, unsignedTxValid, { version: 3, valid_from: 1000, valid_from_block: 5, valid_till_block: 10 });
+		const txV3 = Transaction.sign(unsignedV3, prefix, privateKey);
+		it("Version", () => expect(txV3.version).toBe(3));
+		it("Valid from", () => expect(txV3.validFrom).toBe(1000));
+		it("Valid from block", () => expect(txV3.validFromBlock).toBe(5));
+		it("Valid till block", () => expect(txV3.validTillBlock).toBe(10));
+		it("Valid till", () => expect(txV3.validTill).toBe(123));
+		it("Payload", () => expect(txV3.getPayloadJson()).toEqual({ key: "value" }));
+		it("Length", () => expect(txV3.totalLength).toBe(Transaction.emptyLength + 24 + txV3.payloadLength));
+		it("Signature", () => expect(txV3.verifySignature(prefix)).toBe(true));
+		it("Address", () => expect(txV3.getAddress()).toBe(privateKey.getAddress()));
+		it("Defaults", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 3 }), prefix, privateKey).validFrom).toBe(0));
+		it("Version 1 defaults", () => expect([tx.validFrom, tx.validFromBlock, tx.validTillBlock]).toEqual([0, 0, 0]));
+		it("Version 1 ignores window", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { valid_from: 1000 }), prefix, privateKey).validFrom).toBe(0));
+		it("From database", () => expect(new Transaction(Object.assign({}, unsignedV3, { signature: txV3.getSignature(), public_key: txV3.getPublicKeyBuffer() })).data).toEqual(txV3.data));
+		it("Sign data", () => expect(Transaction.parseSignData(Transaction.getSignData(unsignedV3))).toEqual(unsignedV3));
+		it("JSON", () => expect(txV3.toJSON()).toEqual(jasmine.objectContaining({ valid_from: 1000, valid_from_block: 5, valid_till_block: 10 })));
+		it("JSON round trip", () => expect(Transaction.fromJSON(txV3.toJSON()).data).toEqual(txV3.data));
+		it("Too short", () => expect(() => new Transaction(Buffer.concat([Crypto.uInt32ToBinary(Transaction.emptyLength + 23), txV3.data.slice(4, 61), Buffer.alloc(23), txV3.data.slice(-97)]))).toThrow());
+		it("Unsupported version", () => expect(() => Transaction.sign(Object.assign({}, unsignedTxValid, { version: Transaction.maxVersion + 1 }), prefix, privateKey)).toThrow());
+		it("Invalid valid from", () => expect(() => Transaction.sign(Object.assign({}, unsignedV3, { valid_from: -1 }), prefix, privateKey)).toThrow());
+	});
+
+	describe("Sequence", () => {
+		const unsignedV4: UnsignedTx = Object.assign({}, unsignedTxValid, { version: 4, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 7 });
+		const txV4 = Transaction.sign(unsignedV4, prefix, privateKey);
+		it("Version", () => expect(txV4.version).toBe(4));
+		it("Sequence", () => expect(txV4.sequence).toBe(7));
+		it("Payload", () => expect(txV4.getPayloadJson()).toEqual({ key: "value" }));
+		it("Length", () => expect(txV4.totalLength).toBe(Transaction.emptyLength + 32 + txV4.payloadLength));
+		it("Signature", () => expect(txV4.verifySignature(prefix)).toBe(true));
+		it("Defaults", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 4 }), prefix, privateKey).sequence).toBe(0));
+		it("Version 3 defaults", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 3, sequence: 7 }), prefix, privateKey).sequence).toBe(0));
+		it("From database", () => expect(new Transaction(Object.assign({}, unsignedV4, { signature: txV4.getSignature(), public_key: txV4.getPublicKeyBuffer() })).data).toEqual(txV4.data));
+		it("Sign data", () => expect(Transaction.parseSignData(Transaction.getSignData(unsignedV4))).toEqual(unsignedV4));
+		it("JSON", () => expect(txV4.toJSON()).toEqual(jasmine.objectContaining({ sequence: 7 })));
+		it("JSON round trip", () => expect(Transaction.fromJSON(txV4.toJSON()).data).toEqual(txV4.data));
+		it("Too short", () => expect(() => new Transaction(Buffer.concat([Crypto.uInt32ToBinary(Transaction.emptyLength + 31), txV4.data.slice(4, 85), Buffer.alloc(7), txV4.data.slice(-97)]))).toThrow());
+	});
+
+	describe("Dependencies", () => {
+		const dependencies = [Buffer.alloc(16, 1), Buffer.alloc(16, 2)];
+		const unsignedV5: UnsignedTx = Object.assign({}, unsignedTxValid, { version: 5, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies });
+		const txV5 = Transaction.sign(unsignedV5, prefix, privateKey);
+		it("Version", () => expect(txV5.version).toBe(5));
+		it("Dependencies", () => expect(txV5.getDependencies()).toEqual(dependencies));
+		it("Payload", () => expect(txV5.getPayloadJson()).toEqual({ key: "value" }));
+		it("Length", () => expect(txV5.totalLength).toBe(Transaction.emptyLength + 33 + 32 + txV5.payloadLength));
+		it("Signature", () => expect(txV5.verifySignature(prefix)).toBe(true));
+		it("No dependencies", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 5 }), prefix, privateKey).getDependencies()).toEqual([]));
+		it("Version 4 no dependencies", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 4, dependencies }), prefix, privateKey).getDependencies()).toEqual([]));
+		it("From database", () => expect(new Transaction(Object.assign({}, unsignedV5, { signature: txV5.getSignature(), public_key: txV5.getPublicKeyBuffer() })).data).toEqual(txV5.data));
+		it("Sign data", () => expect(Transaction.parseSignData(Transaction.getSignData(unsignedV5))).toEqual(unsignedV5));
+		it("JSON", () => expect(txV5.toJSON().dependencies).toEqual(["01".repeat(16), "02".repeat(16)]));
+		it("JSON round trip", () => expect(Transaction.fromJSON(txV5.toJSON()).data).toEqual(txV5.data));
+		it("Invalid JSON dependency", () => expect(() => Transaction.fromJSON(Object.assign(txV5.toJSON(), { dependencies: ["01"] }))).toThrow());
+		it("Too many", () => expect(() => Transaction.sign(Object.assign({}, unsignedV5, { dependencies: new Array(Transaction.maxDependencies + 1).fill(Buffer.alloc(16)) }), prefix, privateKey)).toThrowError("Too many dependencies."));
+		it("Too short", () => expect(() => new Transaction(Buffer.concat([Crypto.uInt32ToBinary(Transaction.emptyLength + 33 + 31), txV5.data.slice(4, 94 + 31), txV5.data.slice(-97)]))).toThrow());
+		it("Sign data too short", () => expect(() => Transaction.parseSignData(Transaction.getSignData(unsignedV5).slice(0, 100))).toThrow());
+	});
+
+	describe("Payload encoding", () => {
+		const largePayload = JSON.stringify({ key: "a".repeat(200000) });
+		const unsignedV6: UnsignedTx = Object.assign({}, unsignedTxValid, { version: 6, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies: [Buffer.alloc(16, 1)], payload_encoding: PayloadEncoding.Deflate, payload: largePayload });
+		const txV6 = Transaction.sign(unsignedV6, prefix, privateKey);
+		it("Version", () => expect(txV6.version).toBe(6));
+		it("Encoding", () => expect(txV6.payloadEncoding).toBe(PayloadEncoding.Deflate));
+		it("Compressed", () => expect(txV6.payloadLength).toBeLessThan(Transaction.maxPayloadLength));
+		it("Payload binary", () => expect(txV6.getPayloadBinary().toString()).toBe(largePayload));
+		it("Payload json", () => expect(txV6.getPayloadJson()).toEqual({ key: "a".repeat(200000) }));
+		it("Encoded payload", () => expect(Transaction.decodePayload(txV6.getEncodedPayloadBinary(), PayloadEncoding.Deflate).toString()).toBe(largePayload));
+		it("Dependencies", () => expect(txV6.getDependencies()).toEqual([Buffer.alloc(16, 1)]));
+		it("Signature", () => expect(txV6.verifySignature(prefix)).toBe(true));
+		it("Signature covers compressed payload", () => expect(new Transaction(Buffer.concat([txV6.data.slice(0, -98), Buffer.from([txV6.data[txV6.data.length - 98] ^ 1]), txV6.data.slice(-97)])).verifySignature(prefix)).toBe(false));
+		it("Raw", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 6 }), prefix, privateKey).getPayloadJson()).toEqual({ key: "value" }));
+		it("Raw default", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 6 }), prefix, privateKey).payloadEncoding).toBe(PayloadEncoding.Raw));
+		it("From database", () => expect(new Transaction(Object.assign({}, unsignedV6, { signature: txV6.getSignature(), public_key: txV6.getPublicKeyBuffer() })).data).toEqual(txV6.data));
+		it("Sign data", () => expect(Transaction.parseSignData(Transaction.getSignData(unsignedV6))).toEqual(Object.assign({}, unsignedV6, { encoded_payload: txV6.getEncodedPayloadBinary() })));
+		it("Sign data raw", () => expect(Transaction.parseSignData(Transaction.getSignData(Object.assign({}, unsignedTxValid, { version: 6 }))).encoded_payload).toBeUndefined());
+		const otherCompression = deflateRawSync(Buffer.from(largePayload), { level: 1 });
+		const txOtherCompression = Transaction.sign(Object.assign({}, unsignedV6, { encoded_payload: otherCompression }), prefix, privateKey);
+		it("Other compression", () => expect(txOtherCompression.getEncodedPayloadBinary()).toEqual(otherCompression));
+		it("Other compression payload", () => expect(txOtherCompression.getPayloadBinary().toString()).toBe(largePayload));
+		it("Other compression from database", () => expect(new Transaction(Object.assign({}, unsignedV6, {
+			encoded_payload: txOtherCompression.getEncodedPayloadBinary(), signature: txOtherCompression.getSignature(), public_key: txOtherCompression.getPublicKeyBuffer()
+		})).verifySignature(prefix)).toBe(true));
+		it("Other compression from database without encoded payload", () => expect(new Transaction(Object.assign({}, unsignedV6, {
+			signature: txOtherCompression.getSignature(), public_key: txOtherCompression.getPublicKeyBuffer()
+		})).verifySignature(prefix)).toBe(false));
+		it("Encoded payload version 5", () => expect(Transaction.sign(Object.assign({}, unsignedTxValid, { version: 5, encoded_payload: otherCompression }), prefix, privateKey).getPayloadJson()).toEqual({ key: "value" }));
+		it("JSON", () => expect(txV6.toJSON()).toEqual(jasmine.objectContaining({ payload_hex: Crypto.binaryToHex(txV6.getEncodedPayloadBinary()), payload_encoding: PayloadEncoding.Deflate })));
+		it("JSON no parsed payload", () => expect(txV6.toJSON().payload).toBeUndefined());
+		it("JSON round trip", () => expect(Transaction.fromJSON(txV6.toJSON()).data).toEqual(txV6.data));
+		it("JSON round trip other compression", () => expect(Transaction.fromJSON(JSON.parse(JSON.stringify(txOtherCompression))).getEncodedPayloadBinary()).toEqual(otherCompression));
+		it("JSON parsed payload", () => expect(Transaction.fromJSON(Object.assign(txV6.toJSON(), { payload: { key: "a".repeat(200000) }, payload_hex: undefined })).data).toEqual(txV6.data));
+		it("Unsupported encoding", () => expect(() => Transaction.sign(Object.assign({}, unsignedTxValid, { version: 6, payload_encoding: 2 }), prefix, privateKey)).toThrow());
+		it("Invalid compressed payload", () => expect(() => Transaction.decodePayload(Buffer.from("invalid"), PayloadEncoding.Deflate)).toThrowError("Invalid compressed payload."));
+		it("Invalid compressed payload json", () => expect(Transaction.sign(Buffer.concat([Crypto.uInt32ToBinary(0), Transaction.getSignData(Object.assign({}, unsignedTxValid, { version: 6, payload: "" })).slice(0, -1), Crypto.uInt8ToBinary(PayloadEncoding.Deflate), Buffer.from("invalid")]), prefix, privateKey).getPayloadJson()).toBeUndefined());
+		it("Decompressed too large", () => expect(() => Transaction.sign(Object.assign({}, unsignedV6, { payload: " ".repeat(Transaction.maxDecodedPayloadLength + 1) }), prefix, privateKey).getPayloadBinary()).toThrowError("Payload too large."));
+		it("Decompressed too large json", () => expect(Transaction.sign(Object.assign({}, unsignedV6, { payload: " ".repeat(Transaction.maxDecodedPayloadLength + 1) }), prefix, privateKey).getPayloadJson()).toBeUndefined());
+	});
+
+	describe("Sponsored", () => {
+		const sponsorKey = PrivateKey.generate();
+		const unsignedV7: UnsignedTx = Object.assign({}, unsignedTxValid, { version: 7, valid_from: 0, valid_from_block: 0, valid_till_block: 0, sequence: 0, dependencies: [Buffer.alloc(16, 1)], payload_encoding: PayloadEncoding.Raw, sponsored: true });
+		const userSigned = Transaction.sign(unsignedV7, prefix, privateKey);
+		const txV7 = Transaction.sponsor(userSigned, prefix, sponsorKey);
+		it("Version", () => expect(txV7.version).toBe(7));
+		it("Sponsored", () => expect(txV7.sponsored).toBe(true));
+		it("Not sponsored", () => expect(Transaction.sign(Object.assign({}, unsignedV7, { sponsored: false }), prefix, privateKey).sponsored).toBe(false));
+		it("Not sponsored length", () => expect(Transaction.sign(Object.assign({}, unsignedV7, { sponsored: false }), prefix, privateKey).totalLength).toBe(Transaction.emptyLength + 35 + 16 + 15));
+		it("Length", () => expect(txV7.totalLength).toBe(Transaction.emptyLength + 35 + 16 + 97 + 15));
+		it("Payload", () => expect(txV7.getPayloadJson()).toEqual({ key: "value" }));
+		it("Dependencies", () => expect(txV7.getDependencies()).toEqual([Buffer.alloc(16, 1)]));
+		it("Address", () => expect(txV7.getAddress()).toBe(privateKey.getAddress()));
+		it("Sponsor address", () => expect(txV7.getSponsorAddress()).toBe(sponsorKey.getAddress()));
+		it("Sponsor public key", () => expect(txV7.getSponsorPublicKeyBuffer()).toEqual(sponsorKey.publicKey));
+		it("Signature", () => expect(txV7.verifySignature(prefix)).toBe(true));
+		it("Same user signature", () => expect(txV7.getSignature()).toEqual(userSigned.getSignature()));
+		it("Not yet sponsored address", () => expect(userSigned.getSponsorAddress()).toBeUndefined());
+		it("Not yet sponsored signature", () => expect(userSigned.verifySignature(prefix)).toBe(false));
+		it("Not yet sponsored signature not required", () => expect(userSigned.verifySignature(prefix, false)).toBe(true));
+		it("Invalid sponsor signature", () => expect(Transaction.sponsor(userSigned, Buffer.from("other"), sponsorKey).verifySignature(prefix)).toBe(false));
+		it("Invalid sponsor signature not required", () => expect(Transaction.sponsor(userSigned, Buffer.from("other"), sponsorKey).verifySignature(prefix, false)).toBe(false));
+		it("Sponsor signs user signature", () => expect(new Transaction(Buffer.concat([txV7.data.slice(0, -194), Transaction.sign(unsignedV7, prefix, privateKey).getSignature(), txV7.data.slice(-130)])).verifySignature(prefix)).toBe(false));
+		it("Sponsor not sponsored", () => expect(() => Transaction.sponsor(tx, prefix, sponsorKey)).toThrowError("Transaction is not sponsored."));
+		it("Sponsor address not sponsored", () => expect(tx.getSponsorAddress()).toBeUndefined());
+		it("Sponsor signature not sponsored", () => expect(() => tx.getSponsorSignature()).toThrow());
+		it("From database", () => expect(new Transaction(Object.assign({}, unsignedV7, { signature: txV7.getSignature(), public_key: txV7.getPublicKeyBuffer(), sponsor_signature: txV7.getSponsorSignature(), sponsor_public_key: txV7.getSponsorPublicKeyBuffer() })).data).toEqual(txV7.data));
+		it("From database not yet sponsored", () => expect(new Transaction(Object.assign({}, unsignedV7, { signature: userSigned.getSignature(), public_key: userSigned.getPublicKeyBuffer() })).data).toEqual(userSigned.data));
+		it("Invalid sponsor public key", () => expect(() => new Transaction(Object.assign({}, unsignedV7, { signature: txV7.getSignature(), public_key: txV7.getPublicKeyBuffer(), sponsor_signature: txV7.getSponsorSignature(), sponsor_public_key: Buffer.alloc(33, 1) }))).toThrow());
+		it("Invalid sponsored", () => expect(() => new Transaction(Buffer.concat([txV7.data.slice(0, 111), Buffer.from([2]), txV7.data.slice(112)]))).toThrow());
+		it("Sign data", () => expect(Transaction.parseSignData(Transaction.getSignData(unsignedV7))).toEqual(unsignedV7));
+		it("JSON", () => expect(txV7.toJSON()).toEqual(jasmine.objectContaining({ sponsored: true, sponsor: sponsorKey.getAddress(), sponsor_public_key: Crypto.binaryToHex(sponsorKey.publicKey) })));
+		it("JSON round trip", () => expect(Transaction.fromJSON(txV7.toJSON()).data).toEqual(txV7.data));
+		it("JSON round trip not yet sponsored", () => expect(Transaction.fromJSON(userSigned.toJSON()).data).toEqual(userSigned.data));
+		it("JSON wrong sponsor", () => expect(() => Transaction.fromJSON(Object.assign(txV7.toJSON(), { sponsor: privateKey.getAddress() }))).toThrow());
+		it("Merge", () => expect(Transaction.unmerge(Transaction.merge([txV7, tx]))[0].getSponsorAddress()).toBe(sponsorKey.getAddress()));
+	});
 });
\ No newline at end of file
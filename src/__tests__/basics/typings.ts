@@ -0,0 +1,53 @@
+/* eslint-disable max-len */
+import { Typings, Template, Crypto, CreatePayload } from "../../index";
+
+describe("Typings", () => {
+	const hash = Buffer.alloc(32, 1);
+	const template: Template = {
+		amount: { type: "uint", name: "Amount", desc: "Amount to send" },
+		to: { type: "addr" },
+		memo: { type: "str?" },
+		tags: { type: "strArray" },
+		kind: { type: "str", enum: ["a", "b"] },
+		data: { type: "json" },
+		"some-key": { type: "bool" },
+		nested: { type: "obj", template: { a: { type: "bigint" } } },
+		pair: { type: "tuple", items: [{ type: "int" }, { type: "bool" }] }
+	};
+
+	describe("From template", () => {
+		const typings = Typings.fromTemplate("my contract", hash, template, 3);
+		it("Interface", () => expect(typings).toContain("export interface MyContractPayload {\n"));
+		it("Number", () => expect(typings).toContain("\tamount: number;\n"));
+		it("Comment", () => expect(typings).toContain("\t/** Amount: Amount to send */\n"));
+		it("String", () => expect(typings).toContain("\tto: string;\n"));
+		it("Optional", () => expect(typings).toContain("\tmemo?: string;\n"));
+		it("Array", () => expect(typings).toContain("\ttags: Array<string>;\n"));
+		it("Enum", () => expect(typings).toContain('\tkind: "a" | "b";\n'));
+		it("Json", () => expect(typings).toContain("\tdata: unknown;\n"));
+		it("Quoted key", () => expect(typings).toContain('\t"some-key": boolean;\n'));
+		it("Nested object", () => expect(typings).toContain("\tnested: {\n\t\ta: string;\n\t};\n"));
+		it("Tuple", () => expect(typings).toContain("\tpair: [number, boolean];\n"));
+		it("Tuple optional item", () => expect(Typings.fromTemplate("Test", hash, { pair: { type: "tuple", items: [{ type: "int?" }, { type: "bool" }] } }, 3)).toContain("\tpair: [number, boolean];\n"));
+		it("Contract hash", () => expect(typings).toContain(`export const MyContractContractHash = "${hash.toString("hex")}";`));
+		it("Create function", () => expect(typings).toContain("export function createMyContractTx(payload: MyContractPayload, transactionId: Buffer, validTill: number): UnsignedTx {"));
+		it("Import", () => expect(typings).toContain('import { UnsignedTx } from "@coinversable/validana-core";'));
+	});
+
+	describe("Versions", () => {
+		const typingsV1 = Typings.fromTemplate("Test", hash, template, 1);
+		const typingsV2 = Typings.fromTemplate("Test", hash, template, 2);
+		it("Optional version 1", () => expect(typingsV1).toContain("\tmemo: string;\n"));
+		it("Json version 1", () => expect(typingsV1).toContain("\tdata: string;\n"));
+		it("Object version 2", () => expect(typingsV2).toContain("\tnested: string;\n"));
+		it("Tuple version 2", () => expect(typingsV2).toContain("\tpair: string;\n"));
+	});
+
+	describe("From contract", () => {
+		it("Identifier", () => expect(Typings.fromContract(hash, { type: "1st", template: {}, validanaVersion: 2 })).toContain("export interface Contract1stPayload {\n}"));
+		const payload: CreatePayload = { type: "Test", version: "1.0", description: "", template: '{"a":{"type":"int"}}', init: "", code: Crypto.binaryToBase64(Crypto.utf8ToBinary("return 1;")) };
+		it("Create payload", () => expect(Typings.fromCreatePayload(payload)).toContain(`"${Crypto.hash256("return 1;").toString("hex")}"`));
+		it("Create payload", () => expect(Typings.fromCreatePayload(payload)).toContain("\ta: number;\n"));
+		it("Create payload version 2", () => expect(Typings.fromCreatePayload({ ...payload, validanaVersion: 2 })).toContain(`"${Crypto.hash256('"use strict";return 1;').toString("hex")}"`));
+	});
+});
\ No newline at end of file
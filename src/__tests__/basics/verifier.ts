@@ -0,0 +1,61 @@
+/* eslint-disable max-len */
+import { Block, ChainVerifier, Crypto, PrivateKey, StreamParser, Transaction } from "../../index";
+
+describe("ChainVerifier", () => {
+	const prefix = Buffer.from("test");
+	const privateKey = PrivateKey.fromWIF("KzKm6K2eShL2AhSzPFrR5WsWaMFnmWvw48g1JsQUeaRmZfThXQJT");
+	const otherKey = PrivateKey.generate();
+	const tx = Transaction.sign({ transaction_id: Buffer.alloc(16, 4), version: 1, contract_hash: Buffer.alloc(32, 8), valid_till: 0, payload: "{}" }, prefix, privateKey);
+	const invalidTx = Buffer.concat([Crypto.uInt32ToBinary(3), Buffer.alloc(3)]);
+	const next = (previous: Block | undefined, transactions: Buffer = tx.data, version: number = 2, key: PrivateKey = privateKey, processedTs?: number) => Block.sign({
+		block_id: previous === undefined ? 0 : previous.id + 1, previous_block_hash: previous === undefined ? Buffer.alloc(32) : previous.getHash(prefix),
+		processed_ts: processedTs ?? (previous === undefined ? 100 : previous.processedTs + 1), transactions, version
+	}, prefix, key);
+	const chain: Block[] = [next(undefined, tx.data, 1)];
+	for (let i = 1; i < 5; i++) {
+		chain.push(next(chain[i - 1], i === 2 ? Buffer.alloc(0) : Transaction.merge([tx, tx])));
+	}
+	const offsetOf = (index: number) => Block.merge(chain.slice(0, index)).length;
+	async function* asyncBlocks(blocks: Block[]): AsyncGenerator<Block> {
+		for (const block of blocks) {
+			yield await Promise.resolve(block);
+		}
+	}
+
+	describe("Valid", () => {
+		it("Array", async () => expect(await ChainVerifier.verify(prefix, privateKey, chain)).toEqual({ valid: true, blocks: 5, transactions: 7, lastBlockId: 4 }));
+		it("Buffer", async () => expect(await ChainVerifier.verify(prefix, privateKey, Block.merge(chain))).toEqual({ valid: true, blocks: 5, transactions: 7, lastBlockId: 4 }));
+		it("Async", async () => expect(await ChainVerifier.verify(prefix, privateKey, asyncBlocks(chain))).toEqual({ valid: true, blocks: 5, transactions: 7, lastBlockId: 4 }));
+		it("Stream", async () => expect((await ChainVerifier.verify(prefix, privateKey, StreamParser.blocks().parse([Block.merge(chain).slice(0, 100), Block.merge(chain).slice(100)]))).valid).toBe(true));
+		it("Empty", async () => expect(await ChainVerifier.verify(prefix, privateKey, [])).toEqual({ valid: true, blocks: 0, transactions: 0, lastBlockId: undefined }));
+		it("Empty buffer", async () => expect((await ChainVerifier.verify(prefix, privateKey, Buffer.alloc(0))).valid).toBe(true));
+		it("With previous", async () => expect(await ChainVerifier.verify(prefix, privateKey, chain.slice(2), chain[1])).toEqual({ valid: true, blocks: 3, transactions: 4, lastBlockId: 4 }));
+		it("With previous header", async () => expect((await ChainVerifier.verify(prefix, privateKey, chain.slice(2), chain[1].getHeader())).valid).toBe(true));
+		it("Empty with previous", async () => expect((await ChainVerifier.verify(prefix, privateKey, [], chain[1])).lastBlockId).toBe(1));
+	});
+
+	describe("Invalid", () => {
+		const verify = async (blocks: Block[]) => (await ChainVerifier.verify(prefix, privateKey, blocks)).failure;
+		it("Report", async () => expect(await ChainVerifier.verify(prefix, privateKey, [chain[0], chain[2]])).toEqual({
+			valid: false, blocks: 1, transactions: 1, lastBlockId: 0, failure: { reason: "Block id does not follow the previous block.", blockId: 2, offset: chain[0].data.length }
+		}));
+		it("Not starting at 0", async () => expect(await verify(chain.slice(1))).toEqual({ reason: "Block id does not follow the previous block.", blockId: 1, offset: 0 }));
+		it("First previous hash", async () => expect((await verify([Block.sign({ block_id: 0, previous_block_hash: Buffer.alloc(32, 1), processed_ts: 1, transactions: Buffer.alloc(0), version: 1 }, prefix, privateKey)]))!.reason).toBe("Previous block hash does not match the previous block."));
+		it("Previous hash", async () => expect(await verify([...chain.slice(0, 3), Block.sign({ block_id: 3, previous_block_hash: chain[1].getHash(prefix), processed_ts: 200, transactions: tx.data, version: 2 }, prefix, privateKey)])).toEqual({ reason: "Previous block hash does not match the previous block.", blockId: 3, offset: offsetOf(3) }));
+		it("Wrong order", async () => expect((await verify([chain[0], chain[2], chain[1]]))!.blockId).toBe(2));
+		it("Timestamp", async () => expect(await verify([...chain.slice(0, 3), next(chain[2], tx.data, 2, privateKey, chain[2].processedTs)])).toEqual({ reason: "Processed timestamp is not after the previous block.", blockId: 3, offset: offsetOf(3) }));
+		it("Signature", async () => expect(await verify([...chain.slice(0, 4), next(chain[3], tx.data, 2, otherKey)])).toEqual({ reason: "Invalid signature.", blockId: 4, offset: offsetOf(4) }));
+		it("Signature version 1", async () => expect(await verify([next(undefined, tx.data, 1, otherKey)])).toEqual({ reason: "Invalid signature.", blockId: 0, offset: 0 }));
+		it("Other key", async () => expect((await ChainVerifier.verify(prefix, otherKey, chain)).blocks).toBe(0));
+		it("Other prefix", async () => expect((await ChainVerifier.verify(Buffer.from("other"), privateKey, chain)).blocks).toBe(0));
+		it("Merkle root", async () => expect(await verify([chain[0], new Block(Buffer.concat([Crypto.uInt32ToBinary(chain[1].totalLength - tx.data.length), chain[1].data.slice(4, 85), tx.data, chain[1].getSignature()]))])).toEqual({ reason: "Merkle root does not match the transactions.", blockId: 1, offset: chain[0].data.length }));
+		it("Transaction", async () => expect(await verify([chain[0], next(chain[0], Buffer.concat([tx.data, invalidTx]))])).toEqual({ reason: jasmine.stringMatching(/^Invalid transaction: /), blockId: 1, offset: chain[0].data.length, transactionIndex: 1 }));
+		it("Transaction version 1", async () => expect((await verify([next(undefined, Buffer.concat([invalidTx, tx.data]), 1)]))!.transactionIndex).toBe(0));
+		it("Not a block", async () => expect((await verify([chain[0], {} as any]))!.reason).toBe("Not a block."));
+		it("Corrupt buffer", async () => expect((await ChainVerifier.verify(prefix, privateKey, Buffer.concat([Block.merge(chain.slice(0, 2)), Buffer.alloc(10)]))).failure).toEqual({ reason: jasmine.any(String), blockId: undefined, offset: offsetOf(2) }));
+		it("Truncated buffer", async () => expect(await ChainVerifier.verify(prefix, privateKey, Block.merge(chain).slice(0, -1))).toEqual({
+			valid: false, blocks: 4, transactions: 5, lastBlockId: 3, failure: { reason: jasmine.any(String), blockId: undefined, offset: offsetOf(4) }
+		}));
+		it("Failing source", async () => expect((await ChainVerifier.verify(prefix, privateKey, (async function* (): AsyncGenerator<Block> { yield await Promise.resolve(chain[0]); throw new Error("Connection lost."); })())).failure).toEqual({ reason: "Connection lost.", blockId: undefined, offset: chain[0].data.length }));
+	});
+});
\ No newline at end of file
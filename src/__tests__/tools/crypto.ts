@@ -27,6 +27,20 @@ describe("Crypto", () => {
 		it("Invalid character", () => expect(Crypto.isBase64Url("abc+")).toBe(false));
 		it("Invalid character", () => expect(Crypto.isBase64Url("abc/")).toBe(false));
 	});
+	describe("toCanonicalJson", () => {
+		it("Literals", () => expect(Crypto.toCanonicalJson([null, true, false])).toBe("[null,true,false]"));
+		it("Sorted keys", () => expect(Crypto.toCanonicalJson({ b: 1, a: { d: [], c: {} } })).toBe('{"a":{"c":{},"d":[]},"b":1}'));
+		it("Utf16 key order", () => expect(Crypto.toCanonicalJson({ "\u20ac": 1, "\r": 2, "\ufb33": 3, "1": 4, "\ud83d\ude00": 5, "\u0080": 6, "\u00f6": 7 }))
+			.toBe('{"\\r":2,"1":4,"\u0080":6,"\u00f6":7,"\u20ac":1,"\ud83d\ude00":5,"\ufb33":3}'));
+		it("Numbers", () => expect(Crypto.toCanonicalJson([1E30, 4.50, 2e-3, 0.000000000000000000000000001, -0, 1e21, 1e-7])).toBe("[1e+30,4.5,0.002,1e-27,0,1e+21,1e-7]"));
+		it("Strings", () => expect(Crypto.toCanonicalJson("\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"/")).toBe('"\u20ac$\\u000f\\nA\'B\\"\\\\\\\\\\"/"'));
+		it("Lone surrogate", () => expect(() => Crypto.toCanonicalJson("\ud800")).toThrow());
+		it("Lone surrogate key", () => expect(() => Crypto.toCanonicalJson({ "\udc00": 1 })).toThrow());
+		it("Infinity", () => expect(() => Crypto.toCanonicalJson(Infinity)).toThrow());
+		it("NaN", () => expect(() => Crypto.toCanonicalJson(NaN)).toThrow());
+		it("Undefined", () => expect(() => Crypto.toCanonicalJson({ a: undefined })).toThrow());
+		it("Function", () => expect(() => Crypto.toCanonicalJson(() => 1)).toThrow());
+	});
 	describe("isBase58", () => {
 		it("Empty", () => expect(Crypto.isBase58("")).toBe(true));
 		it("Base58 characters", () => expect(Crypto.isBase58("123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz")).toBe(true));
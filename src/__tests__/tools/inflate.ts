@@ -0,0 +1,39 @@
+/* eslint-disable max-len */
+import { deflateRawSync, constants } from "zlib";
+import { Crypto, Inflate } from "../../index";
+
+describe("Inflate", () => {
+	const text = Buffer.from("Validana ".repeat(1000) + JSON.stringify({ key: "value", list: [1, 2, 3] }));
+	const random = Crypto.hash256(text);
+	const mixed = Buffer.concat([text, random, text.slice(0, 5000), Buffer.alloc(70000, 7)]);
+
+	describe("Valid data", () => {
+		for (const level of [0, 1, 6, 9]) {
+			it(`Level ${level}`, () => expect(Inflate.inflateRaw(deflateRawSync(mixed, { level }), mixed.length)).toEqual(mixed));
+		}
+		it("Fixed codes", () => expect(Inflate.inflateRaw(deflateRawSync(mixed, { strategy: constants.Z_FIXED }), mixed.length)).toEqual(mixed));
+		it("Huffman only", () => expect(Inflate.inflateRaw(deflateRawSync(mixed, { strategy: constants.Z_HUFFMAN_ONLY }), mixed.length)).toEqual(mixed));
+		it("Run length", () => expect(Inflate.inflateRaw(deflateRawSync(mixed, { strategy: constants.Z_RLE }), mixed.length)).toEqual(mixed));
+		it("Small window", () => expect(Inflate.inflateRaw(deflateRawSync(mixed, { windowBits: 9 }), mixed.length)).toEqual(mixed));
+		it("Random data", () => expect(Inflate.inflateRaw(deflateRawSync(random), 32)).toEqual(random));
+		it("Empty", () => expect(Inflate.inflateRaw(deflateRawSync(Buffer.alloc(0)), 0)).toEqual(Buffer.alloc(0)));
+		it("Single byte", () => expect(Inflate.inflateRaw(deflateRawSync(Buffer.from("a")), 1)).toEqual(Buffer.from("a")));
+	});
+
+	describe("Too large", () => {
+		it("Maximum length", () => expect(() => Inflate.inflateRaw(deflateRawSync(mixed), mixed.length - 1)).toThrowError(RangeError));
+		it("Stored", () => expect(() => Inflate.inflateRaw(deflateRawSync(mixed, { level: 0 }), 1000)).toThrowError(RangeError));
+		it("Compression bomb", () => expect(() => Inflate.inflateRaw(deflateRawSync(Buffer.alloc(100000000)), 1000000)).toThrowError(RangeError));
+	});
+
+	describe("Invalid data", () => {
+		const compressed = deflateRawSync(text);
+		it("Empty", () => expect(() => Inflate.inflateRaw(Buffer.alloc(0), 100)).toThrowError(Error, "Unexpected end of compressed data."));
+		it("Truncated", () => expect(() => Inflate.inflateRaw(compressed.slice(0, -1), text.length)).toThrowError(Error, "Unexpected end of compressed data."));
+		it("Trailing data", () => expect(() => Inflate.inflateRaw(Buffer.concat([compressed, Buffer.alloc(1)]), text.length)).toThrowError(Error, "Data after end of compressed data."));
+		it("Invalid block type", () => expect(() => Inflate.inflateRaw(Buffer.from([0x07]), 100)).toThrowError(Error, "Invalid block type."));
+		it("Invalid stored length", () => expect(() => Inflate.inflateRaw(Buffer.from([0x01, 0x01, 0x00, 0x00, 0x00, 0x61]), 100)).toThrowError(Error, "Invalid stored block length."));
+		it("Distance too far back", () => expect(() => Inflate.inflateRaw(Buffer.from([0x03, 0x02]), 100)).toThrowError(Error, "Distance too far back."));
+		it("Not raw deflate", () => expect(() => Inflate.inflateRaw(Buffer.from("invalid"), 100)).toThrow());
+	});
+});
\ No newline at end of file
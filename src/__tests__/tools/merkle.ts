@@ -0,0 +1,52 @@
+import { Crypto, Merkle } from "../../index";
+
+describe("Merkle", () => {
+	const leaves = [1, 2, 3, 4, 5].map((i) => Merkle.hashLeaf(Buffer.alloc(i, i)));
+	const node = (left: Buffer, right: Buffer) => Crypto.hash256(Buffer.concat([Buffer.from([1]), left, right]));
+
+	describe("hashLeaf", () => {
+		it("Prefixed", () => expect(Merkle.hashLeaf(Buffer.from("ab"))).toEqual(Crypto.hash256(Buffer.from("\0ab"))));
+		it("Empty", () => expect(Merkle.hashLeaf(Buffer.alloc(0))).toEqual(Crypto.hash256(Buffer.alloc(1))));
+		it("Not the same as a node", () => expect(Merkle.hashLeaf(Buffer.concat([Buffer.from([1]), leaves[0], leaves[1]]))).not.toEqual(node(leaves[0], leaves[1])));
+	});
+
+	describe("getRoot", () => {
+		it("Empty", () => expect(Merkle.getRoot([])).toEqual(Crypto.hash256(Buffer.alloc(0))));
+		it("Single", () => expect(Merkle.getRoot(leaves.slice(0, 1))).toEqual(leaves[0]));
+		it("Two", () => expect(Merkle.getRoot(leaves.slice(0, 2))).toEqual(node(leaves[0], leaves[1])));
+		it("Three", () => expect(Merkle.getRoot(leaves.slice(0, 3))).toEqual(node(node(leaves[0], leaves[1]), leaves[2])));
+		it("Four", () => expect(Merkle.getRoot(leaves.slice(0, 4))).toEqual(node(node(leaves[0], leaves[1]), node(leaves[2], leaves[3]))));
+		it("Five", () => expect(Merkle.getRoot(leaves)).toEqual(node(node(node(leaves[0], leaves[1]), node(leaves[2], leaves[3])), leaves[4])));
+		it("Order matters", () => expect(Merkle.getRoot([leaves[1], leaves[0]])).not.toEqual(Merkle.getRoot([leaves[0], leaves[1]])));
+		it("Last leaf not duplicated", () => expect(Merkle.getRoot(leaves.slice(0, 3))).not.toEqual(Merkle.getRoot([leaves[0], leaves[1], leaves[2], leaves[2]])));
+	});
+
+	describe("Proofs", () => {
+		const many = Array.from({ length: 13 }, (_, i) => Merkle.hashLeaf(Buffer.from([i])));
+		it("Single", () => expect(Merkle.getProof(leaves.slice(0, 1), 0)).toEqual([]));
+		it("Two", () => expect(Merkle.getProof(leaves.slice(0, 2), 0)).toEqual([leaves[1]]));
+		it("Three", () => expect(Merkle.getProof(leaves.slice(0, 3), 2)).toEqual([node(leaves[0], leaves[1])]));
+		it("Five", () => expect(Merkle.getProof(leaves, 1)).toEqual([leaves[0], node(leaves[2], leaves[3]), leaves[4]]));
+		it("Invalid index", () => expect(() => Merkle.getProof(leaves, 5)).toThrow());
+		it("Invalid index", () => expect(() => Merkle.getProof(leaves, -1)).toThrow());
+		it("Invalid index", () => expect(() => Merkle.getProof([], 0)).toThrow());
+		it("All sizes and indexes", () => {
+			for (let size = 1; size <= many.length; size++) {
+				const root = Merkle.getRoot(many.slice(0, size));
+				for (let index = 0; index < size; index++) {
+					expect(Merkle.getRootFromProof(many[index], index, size, Merkle.getProof(many.slice(0, size), index))).toEqual(root);
+				}
+			}
+		});
+		it("Verify", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[3], 3, 5, Merkle.getProof(leaves, 3))).toBe(true));
+		it("Verify single", () => expect(Merkle.verifyProof(leaves[0], leaves[0], 0, 1, [])).toBe(true));
+		it("Verify wrong leaf", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[2], 3, 5, Merkle.getProof(leaves, 3))).toBe(false));
+		it("Verify wrong index", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[3], 2, 5, Merkle.getProof(leaves, 3))).toBe(false));
+		it("Verify wrong size", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[3], 3, 4, Merkle.getProof(leaves, 3))).toBe(false));
+		it("Verify wrong root", () => expect(Merkle.verifyProof(leaves[0], leaves[3], 3, 5, Merkle.getProof(leaves, 3))).toBe(false));
+		it("Verify too short", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[3], 3, 5, Merkle.getProof(leaves, 3).slice(1))).toBe(false));
+		it("Verify too long", () => expect(Merkle.verifyProof(Merkle.getRoot(leaves), leaves[3], 3, 5, Merkle.getProof(leaves, 3).concat(leaves[0]))).toBe(false));
+		it("Verify invalid index", () => expect(() => Merkle.getRootFromProof(leaves[0], 5, 5, [])).toThrow());
+		it("Verify invalid proof length", () => expect(() => Merkle.getRootFromProof(leaves[0], 0, 5, [])).toThrow());
+	});
+});
\ No newline at end of file
@@ -0,0 +1,209 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import * as FS from "fs";
+import { Crypto } from "../tools/crypto";
+import { Block } from "./block";
+import { BlockHeader } from "./header";
+import { PublicKey } from "./key";
+import { ProcessorKeys } from "./rotation";
+import { StreamParser } from "./parser";
+import { ChainReport, ChainVerifier } from "./verifier";
+
+/**
+ * An append-only archive of consecutive blocks, to export, copy and import (part of) a chain without a database.
+ * The data file contains the merged blocks (see Block.merge()), so it can also be read with Block.unmerge() or a StreamParser.
+ * The index file contains 8 bytes first block id, followed by 8 bytes offset in the data file for each block.
+ * Data is always written before the index (and truncated after it), so an interrupted append or truncate leaves data the index does not
+ * point to, which is ignored when verifying and overwritten by the next append.
+ * Note that it is not safe for multiple archives to write to the same files at the same time.
+ */
+export class BlockArchive {
+	/** The file containing the blocks. */
+	public readonly dataFile: string;
+	/** The file containing where each block starts in the data file. */
+	public readonly indexFile: string;
+
+	/**
+	 * Create a new archive, the files are created once blocks are appended.
+	 * @param dataFile The file containing the blocks.
+	 * @param indexFile The file containing where each block starts in the data file.
+	 */
+	constructor(dataFile: string, indexFile: string = `${dataFile}.index`) {
+		this.dataFile = dataFile;
+		this.indexFile = indexFile;
+	}
+
+	/** Get the id of the first block in the archive, or undefined if it is empty. */
+	public async getFirstBlockId(): Promise<number | undefined> {
+		const index = await this.readIndex();
+		return index.offsets.length === 0 ? undefined : index.firstId;
+	}
+
+	/** Get the id of the last block in the archive, or undefined if it is empty. */
+	public async getLastBlockId(): Promise<number | undefined> {
+		const index = await this.readIndex();
+		return index.offsets.length === 0 ? undefined : index.firstId + index.offsets.length - 1;
+	}
+
+	/**
+	 * Append blocks to the archive.
+	 * @param blocks The blocks, the first must follow the last block in the archive (if any) and ids must be consecutive.
+	 * @throws If the block ids are not consecutive or the files could not be written.
+	 */
+	public async append(blocks: Block[]): Promise<void> {
+		if (blocks.length === 0) {
+			return;
+		}
+		const index = await this.readIndex();
+		let nextId = index.offsets.length === 0 ? blocks[0].id : index.firstId + index.offsets.length;
+		let offset = index.dataEnd;
+		const offsets: Buffer[] = [];
+		for (const block of blocks) {
+			if (!(block instanceof Block) || block.id !== nextId) {
+				throw new Error("Block id does not follow the last archived block.");
+			}
+			offsets.push(Crypto.uLongToBinary(offset));
+			offset += block.data.length;
+			nextId++;
+		}
+
+		if (index.offsets.length === 0) {
+			await FS.promises.writeFile(this.dataFile, Block.merge(blocks));
+			await FS.promises.writeFile(this.indexFile, Buffer.concat([Crypto.uLongToBinary(blocks[0].id), ...offsets]));
+		} else {
+			//Remove anything left behind by an interrupted append or truncate.
+			await FS.promises.truncate(this.dataFile, index.dataEnd);
+			await FS.promises.appendFile(this.dataFile, Block.merge(blocks));
+			await FS.promises.truncate(this.indexFile, 8 + index.offsets.length * 8);
+			await FS.promises.appendFile(this.indexFile, Buffer.concat(offsets));
+		}
+	}
+
+	/**
+	 * Read a range of blocks from the archive.
+	 * @param fromId The id of the first block to read.
+	 * @param tillId The id of the last block to read (inclusive).
+	 * @throws If the blocks are not in the archive or could not be read.
+	 */
+	public async read(fromId: number, tillId: number = fromId): Promise<Block[]> {
+		const index = await this.readIndex();
+		const from = fromId - index.firstId;
+		const till = tillId - index.firstId;
+		if (!Number.isSafeInteger(from) || !Number.isSafeInteger(till) || from < 0 || till < from || till >= index.offsets.length) {
+			throw new Error("Invalid block range.");
+		}
+		const start = index.offsets[from];
+		const end = till === index.offsets.length - 1 ? index.dataEnd : index.offsets[till + 1];
+		const file = await FS.promises.open(this.dataFile, "r");
+		try {
+			const data = Buffer.alloc(end - start);
+			const { bytesRead } = await file.read(data, 0, data.length, start);
+			if (bytesRead !== data.length) {
+				throw new Error("Data file is shorter than the index.");
+			}
+			return Block.unmerge(data);
+		} finally {
+			await file.close();
+		}
+	}
+
+	/**
+	 * Verify the integrity of the archive: that the index matches the data and that the blocks form a valid chain, see ChainVerifier.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block.
+	 * @param previous The block (header) before the first archived block, if the archive does not start with the first block.
+	 */
+	public async verify(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, previous?: Block | BlockHeader): Promise<ChainReport> {
+		return ChainVerifier.verify(signPrefix, pubKey, this.iterate(), previous);
+	}
+
+	/**
+	 * Remove all blocks after a block from the archive.
+	 * @param blockId The id of the last block to keep, or the id before the first block to remove all blocks.
+	 * @throws If the block is not in the archive or the files could not be written.
+	 */
+	public async truncate(blockId: number): Promise<void> {
+		const index = await this.readIndex();
+		const keep = blockId - index.firstId + 1;
+		if (!Number.isSafeInteger(keep) || keep < 0 || keep > index.offsets.length) {
+			throw new Error("Invalid block id.");
+		}
+		if (keep === index.offsets.length) {
+			return;
+		}
+		//Truncate the index first, so it never points to data that no longer exists.
+		await FS.promises.truncate(this.indexFile, keep === 0 ? 0 : 8 + keep * 8);
+		await FS.promises.truncate(this.dataFile, index.offsets[keep]);
+	}
+
+	/**
+	 * Read the index file.
+	 * @throws If the files could not be read.
+	 */
+	private async readIndex(): Promise<{ firstId: number, offsets: number[], dataEnd: number }> {
+		let data: Buffer;
+		try {
+			data = await FS.promises.readFile(this.indexFile);
+		} catch (error) {
+			if (error.code !== "ENOENT") {
+				throw error;
+			}
+			data = Buffer.alloc(0);
+		}
+		const offsets: number[] = [];
+		//Ignore a partially written offset, it will be overwritten by the next append.
+		for (let location = 8; location + 8 <= data.length; location += 8) {
+			offsets.push(Crypto.binaryToULong(data.slice(location, location + 8)));
+		}
+		if (offsets.length === 0) {
+			return { firstId: 0, offsets, dataEnd: 0 };
+		}
+
+		//The end of the data is where the last block ends.
+		const file = await FS.promises.open(this.dataFile, "r");
+		try {
+			const length = Buffer.alloc(4);
+			const { bytesRead } = await file.read(length, 0, 4, offsets[offsets.length - 1]);
+			if (bytesRead !== 4) {
+				throw new Error("Data file is shorter than the index.");
+			}
+			return {
+				firstId: Crypto.binaryToULong(data.slice(0, 8)),
+				offsets,
+				dataEnd: offsets[offsets.length - 1] + 4 + Crypto.binaryToUInt32(length)
+			};
+		} finally {
+			await file.close();
+		}
+	}
+
+	/**
+	 * Iterate over all blocks in the index, ignoring data after the last block that the next append overwrites.
+	 * @throws If the index does not match the data, or the files could not be read.
+	 */
+	private async *iterate(): AsyncGenerator<Block> {
+		const index = await this.readIndex();
+		if (index.offsets.length === 0) {
+			return;
+		}
+		let offset = 0;
+		let i = 0;
+		for await (const block of StreamParser.blocks().parse(FS.createReadStream(this.dataFile, { end: index.dataEnd - 1 }))) {
+			if (index.offsets[i] !== offset || block.id !== index.firstId + i) {
+				throw new Error("Index does not match the data file.");
+			}
+			yield block;
+			offset += block.data.length;
+			i++;
+		}
+		if (i !== index.offsets.length) {
+			throw new Error("Data file is shorter than the index.");
+		}
+	}
+}
\ No newline at end of file
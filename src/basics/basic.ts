@@ -10,6 +10,8 @@ import { Client, QueryResult, QueryConfig, types } from "pg";
 import { Log } from "../tools/log";
 import { Crypto } from "../tools/crypto";
 import { Sandbox } from "./sandbox";
+import { PublicKey } from "./key";
+import { ProcessorKeys } from "./rotation";
 import { Transaction, DBTransaction } from "./transaction";
 
 /** Make sure if we query the database any BIGINT (array)s are returned as a number, instead of a string. */
@@ -36,10 +38,12 @@ export enum TxStatus {
 }
 
 //Make sure code and init funcion are called correctly by giving them a type.
+//Only contracts of version 3 and later receive the sponsor and multi-signature transactions (with an array of addresses as from).
 export type InitFunction = (from: string, block: number, processor: string,
 	previousBlockTimestamp: number, previousBlockHash: string, transactionId: string, currentBlockTimestamp: number) => Promise<unknown>;
-export type CodeFunction = (payload: object, from: string, block: number, processor: string,
-	previousBlockTimestamp: number, previousBlockHash: string, transactionId: string, currentBlockTimestamp: number) => Promise<unknown>;
+export type CodeFunction = (payload: object, from: string | string[], block: number, processor: string,
+	previousBlockTimestamp: number, previousBlockHash: string, transactionId: string, currentBlockTimestamp: number,
+	sponsor: string | undefined) => Promise<unknown>;
 
 /** Part of a contract that is needed for the processor/node. */
 export interface Contract {
@@ -50,14 +54,36 @@ export interface Contract {
 	validanaVersion: ContractVersion;
 }
 /** Possible versions of a contract. */
-export type ContractVersion = 1 | 2;
+export type ContractVersion = 1 | 2 | 3;
 /** Template of a contract. */
 export interface Template {
-	[index: string]: {
-		type: string;
-		desc?: string;
-		name?: string;
-	};
+	[index: string]: TemplateEntry;
+}
+/** A single key of a template, with optional constraints that are checked after the type (contract version 3 and later). */
+export interface TemplateEntry {
+	type: string;
+	desc?: string;
+	name?: string;
+	/** Minimum value (inclusive), for int, uint and float types. */
+	minimum?: number;
+	/** Maximum value (inclusive), for int, uint and float types. */
+	maximum?: number;
+	/** Minimum length, for string types. */
+	minLength?: number;
+	/** Maximum length, for string types. */
+	maxLength?: number;
+	/** Regular expression the value must match, for string types with a maxLength, see Transaction.isSafePattern(). */
+	pattern?: string;
+	/** List of allowed values, for number and string types. */
+	enum?: Array<string | number | boolean>;
+	/** Maximum amount of items, for array types. */
+	maxItems?: number;
+	/** Maximum amount of digits after the decimal point, for decimal types (contract version 3 and later). */
+	scale?: number;
+	/** Template of the keys of the object, for object types (contract version 3 and later). */
+	template?: Template;
+	/** Template of each item of the tuple, for tuple types (contract version 3 and later). */
+	items?: TemplateEntry[];
 }
 //Payload for the special contracts.
 export interface CreatePayload {
@@ -72,6 +98,10 @@ export interface CreatePayload {
 export interface DeletePayload {
 	hash: string;
 }
+export interface RotateKeyPayload {
+	publicKey: string;
+	fromBlock: number;
+}
 
 /** The result of processTx. */
 export interface ProcessTxResult {
@@ -106,6 +136,14 @@ export class Basic {
 		validanaVersion: { type: "uint?" }
 	};
 	protected static readonly deleteContractHash: Buffer = Buffer.alloc(32, 255);
+	protected static readonly rotateKeyContractHash: Buffer = ProcessorKeys.rotateKeyContractHash;
+	//All keys a template entry may have, constraints and nested templates require contract version 3 or later.
+	private static readonly templateEntryKeys = ["type", "name", "desc"];
+	private static readonly templateEntryKeysV3 = ["type", "name", "desc", "minimum", "maximum", "minLength", "maxLength", "pattern", "enum", "maxItems",
+		"scale", "template", "items"];
+	//How deep objects and tuples may be nested inside a template, and how many items a tuple may have.
+	private static readonly maxTemplateDepth = 4;
+	private static readonly maxTupleItems = 16;
 	private static readonly deleteContractTemplate: Template & { [P in keyof DeletePayload]: { type: string } } = {
 		hash: { type: "hash" }
 	};
@@ -119,6 +157,9 @@ export class Basic {
 	/** The prefix to use for signing blocks and transactions in this blockchain. */
 	protected signPrefix: Buffer | undefined;
 
+	/** Whether transactions with a payload that is not canonical json (RFC 8785) are invalid. */
+	protected readonly canonicalPayloads: boolean;
+
 	/** Hook to call when it starts and ends an init contract, which may take much longer then normal. */
 	private readonly initHook: ((init: boolean) => void) | undefined;
 	/** If it is currently processing a transaction or not. */
@@ -155,11 +196,13 @@ export class Basic {
 	 * @param dbclient Information for the connection to the database.
 	 * @param signPrefix The prefix used for signing and validating, can be set now or later.
 	 * @param initHook A hook that will be called when it starts/stops creating a contract.
+	 * @param canonicalPayloads Whether payloads must be canonical json (RFC 8785), must be the same for the entire blockchain.
 	 */
-	constructor(dbclient: DatabaseClient, signPrefix?: Buffer, initHook?: (init: boolean) => void) {
+	constructor(dbclient: DatabaseClient, signPrefix?: Buffer, initHook?: (init: boolean) => void, canonicalPayloads: boolean = false) {
 		this.dbclient = dbclient;
 		this.signPrefix = signPrefix;
 		this.initHook = initHook;
+		this.canonicalPayloads = canonicalPayloads;
 	}
 
 	/**
@@ -178,18 +221,30 @@ export class Basic {
 				creator: row.creator,
 				type: row.contract_type,
 				template: row.contract_template,
-				code: new Basic.AsyncFunction("payload", "from", "block", "processor", "previousBlockTimestamp",
-					"previousBlockHash", "transactionId", "currentBlockTimestamp", code).bind(global) as CodeFunction,
+				code: Basic.createCodeFunction(code, row.validana_version),
 				validanaVersion: row.validana_version
 			});
 		}
 	}
 
+	/**
+	 * Loads the processor keys per block, including all rotations that were processed, from the database.
+	 * Note that it will not connect to the database if it was not yet connected!
+	 * @param initialKey The key of the processor for the first block.
+	 */
+	protected async loadProcessorKeys(initialKey: PublicKey): Promise<ProcessorKeys> {
+		const result = await this.query("SELECT from_block, public_key FROM basics.processor_keys;", []);
+		return ProcessorKeys.fromRows(initialKey, result.rows);
+	}
+
 	/**
 	 * Executes the smart contract of a transaction.
 	 * The executor must run "BEGIN; SET LOCAL ROLE smartcontract;" prior to calling this method.
 	 * In case retry is returned the transaction should be retried later.
 	 * In case rollback is returned the database should "ROLLBACK;" and loadSmartContracts() should be called again before continuing.
+	 * For transactions with dependencies the smartcontractmanager role must be able to select
+	 * the transaction_id and status of the transactions in basics.transactions (see SetupDB.sql), otherwise it will shut down.
+	 * The sequence number of a transaction is only used once it ends up in a block (accepted or rejected), not if it is invalid or retried.
 	 * @param tx The transaction to process
 	 * @param currentBlockId The id of the current block
 	 * @param currentBlockTs The time at which the current block is being processed
@@ -217,11 +272,22 @@ export class Basic {
 		Basic.isSpecialContract = false;
 
 		//Verify The transaction is valid.
-		const validatedTx = this.validateTx(unvalidatedTx, previousBlockTs, verifySignature);
+		const validatedTx = this.validateTx(unvalidatedTx, currentBlockId, previousBlockTs, verifySignature);
 		if (validatedTx === undefined) {
 			return this.finishProcessingTx(validatedTx); //Version does not matter
 		}
 
+		//Verify all transactions it depends on have been accepted (version 5 and later).
+		const dependencies = validatedTx.getDependencies();
+		if (dependencies.length > 0 && !await this.verifyDependencies(dependencies)) {
+			return this.finishProcessingTx(validatedTx); //Version does not matter
+		}
+
+		//Verify the sequence number of the sender (version 4 and later).
+		if (validatedTx.sequence !== 0 && !await this.verifySequence(validatedTx)) {
+			return this.finishProcessingTx(validatedTx); //Version does not matter
+		}
+
 		//Verify the payload matches the template
 		Basic.txContractHash = validatedTx.getContractHash();
 		const contract = this.contractMap.get(Basic.txContractHash.toString());
@@ -231,9 +297,15 @@ export class Basic {
 		} else if (Basic.txContractHash.equals(Basic.deleteContractHash)) { //verify to delete template
 			Basic.txRejectReason = validatedTx.verifyTemplate(Basic.deleteContractTemplate, 2);
 			Basic.isSpecialContract = true;
+		} else if (Basic.txContractHash.equals(Basic.rotateKeyContractHash)) { //Verify to rotate key template
+			Basic.txRejectReason = validatedTx.verifyTemplate(ProcessorKeys.rotateKeyTemplate, 2);
+			Basic.isSpecialContract = true;
 		} else { //Verify to template of contract
 			if (contract === undefined) {
 				Basic.txRejectReason = "Contract does not exist.";
+			} else if (validatedTx.version === 2 && contract.validanaVersion < 3) {
+				//Older contracts expect from to be a single address.
+				Basic.txRejectReason = "Contract does not support multi-signature transactions.";
 			} else {
 				Basic.txRejectReason = validatedTx.verifyTemplate(contract.template, contract.validanaVersion);
 			}
@@ -242,8 +314,9 @@ export class Basic {
 			return this.finishProcessingTx(validatedTx); //Version does not matter
 		}
 
-		//Execute the smart contract
-		const from = validatedTx.getAddress();
+		//Execute the smart contract, multi-signature transactions provide the addresses of everyone who signed.
+		//Sponsored transactions also provide the address of the sponsor.
+		const from = validatedTx.version === 2 ? validatedTx.getSignerAddresses() : validatedTx.getAddress();
 		const payload = JSON.parse(validatedTx.getPayloadBinary().toString()); //Make a deep copy for the smart contract to use
 		Sandbox.sandbox();
 		try {
@@ -252,9 +325,11 @@ export class Basic {
 					previousBlockTs, Crypto.binaryToHex(previousBlockHash), Crypto.binaryToHex(validatedTx.getId()), currentBlockTs) as any;
 			} else if (Basic.txContractHash.equals(Basic.deleteContractHash)) {
 				Basic.txAcceptReason = await this.deleteContract(payload as DeletePayload, from) as any;
+			} else if (Basic.txContractHash.equals(Basic.rotateKeyContractHash)) {
+				Basic.txAcceptReason = await this.rotateKey(payload as RotateKeyPayload, from, currentBlockId, processorAddress) as any;
 			} else {
-				Basic.txAcceptReason = await contract!.code(payload, from, currentBlockId, processorAddress,
-					previousBlockTs, Crypto.binaryToHex(previousBlockHash), Crypto.binaryToHex(validatedTx.getId()), currentBlockTs) as any;
+				Basic.txAcceptReason = await contract!.code(payload, from, currentBlockId, processorAddress, previousBlockTs,
+					Crypto.binaryToHex(previousBlockHash), Crypto.binaryToHex(validatedTx.getId()), currentBlockTs, validatedTx.getSponsorAddress()) as any;
 				if (typeof Basic.txAcceptReason !== "string") {
 					Basic.txAcceptReason = "Unknown result type";
 				}
@@ -277,10 +352,11 @@ export class Basic {
 	 * Validate if a transaction is formatted correctly, signed correctly, not expired, etc.
 	 * Return undefined if the transaction is not valid.
 	 * @param unvalidatedTx A transaction (that has not been validated yet, otherwise this method does nothing)
+	 * @param currentBlockId The id of the current block
 	 * @param previousBlockTs The previous block timestamp
 	 * @param verifySignature Whether the signature must be validated, or if this has been done already
 	 */
-	private validateTx(unvalidatedTx: DBTransaction | Buffer | Transaction, previousBlockTs: number,
+	private validateTx(unvalidatedTx: DBTransaction | Buffer | Transaction, currentBlockId: number, previousBlockTs: number,
 		verifySignature: boolean): Transaction | undefined {
 
 		//If needed create the transaction
@@ -293,7 +369,13 @@ export class Basic {
 			}
 		}
 
-		//If needed verify the signature
+		//Sponsored transactions must always be signed by the sponsor (version 7 and later).
+		if (unvalidatedTx.sponsored && unvalidatedTx.getSponsorAddress() === undefined) {
+			Basic.invalidate("Missing sponsor signature.", false);
+			return undefined;
+		}
+
+		//If needed verify the signature (including the signature of the sponsor)
 		if (verifySignature) {
 			//Check if we already have the prefix needed validating.
 			if (this.signPrefix === undefined) {
@@ -313,9 +395,105 @@ export class Basic {
 			return undefined;
 		}
 
+		//Verify the transaction is within its validity window (version 3 and later), which should be retried later if it is not reached yet.
+		if (previousBlockTs < unvalidatedTx.validFrom) {
+			Basic.invalidate("Transaction valid from not reached.", true);
+			return undefined;
+		}
+		if (currentBlockId < unvalidatedTx.validFromBlock) {
+			Basic.invalidate("Transaction valid from block not reached.", true);
+			return undefined;
+		}
+		if (unvalidatedTx.validTillBlock !== 0 && currentBlockId > unvalidatedTx.validTillBlock) {
+			Basic.invalidate("Transaction valid till block expired.", false);
+			return undefined;
+		}
+
+		//Verify an encoded payload can be decoded (version 6 and later).
+		try {
+			unvalidatedTx.getPayloadBinary();
+		} catch (error) {
+			Basic.invalidate(error.message, false);
+			return undefined;
+		}
+
+		//If required verify there is only one way the payload could have been encoded.
+		if (this.canonicalPayloads && unvalidatedTx.getPayloadJson() !== undefined && !unvalidatedTx.isCanonicalPayload()) {
+			Basic.invalidate("Payload is not canonical json.", false);
+			return undefined;
+		}
+
 		return unvalidatedTx;
 	}
 
+	/**
+	 * Verify the transactions a transaction depends on have all been accepted.
+	 * Return false if the transaction is not valid, which should be retried later if some have not been processed yet.
+	 * @param dependencies The ids of the transactions it depends on.
+	 */
+	private async verifyDependencies(dependencies: Buffer[]): Promise<boolean> {
+		try {
+			await this.query("SET LOCAL ROLE smartcontractmanager;", []);
+			const result = await this.query("SELECT transaction_id, status FROM basics.transactions WHERE transaction_id = ANY($1);", [dependencies]);
+			await this.query("SET LOCAL ROLE smartcontract;", []);
+			const statuses = new Map<string, string>();
+			for (const row of result.rows) {
+				statuses.set(Crypto.binaryToHex(row.transaction_id), row.status);
+			}
+			const dependencyStatuses = dependencies.map((id) => statuses.get(Crypto.binaryToHex(id)));
+			if (dependencyStatuses.some((status) => status === TxStatus.Invalid || status === TxStatus.Rejected)) {
+				Basic.invalidate("Transaction dependency not accepted.", false);
+			} else if (dependencyStatuses.some((status) => status !== TxStatus.Accepted)) {
+				Basic.invalidate("Transaction dependency not processed yet.", true);
+			}
+		} catch (error) {
+			//Without the table (or access to it) this will never succeed, which an admin needs to resolve (see SetupDB.sql).
+			if (error.code === "42P01" || error.code === "42501") {
+				Basic.invalidate("Transaction dependencies not available.", true, error, 51);
+			} else {
+				Basic.invalidate("Database connection problem.", true, error);
+			}
+		}
+		return Basic.txInvalidReason === undefined;
+	}
+
+	/**
+	 * Verify the sequence number of a transaction is the next one for its sender.
+	 * Return false if the transaction is not valid, which should be retried later if its sequence number is not reached yet.
+	 * @param validatedTx A validated transaction with a sequence number.
+	 */
+	private async verifySequence(validatedTx: Transaction): Promise<boolean> {
+		try {
+			await this.query("SET LOCAL ROLE smartcontractmanager;", []);
+			const result = await this.query("SELECT sequence FROM basics.sequences WHERE address = $1;", [validatedTx.getAddress()]);
+			await this.query("SET LOCAL ROLE smartcontract;", []);
+			const lastSequence = result.rows.length === 0 ? 0 : Number(result.rows[0].sequence);
+			if (validatedTx.sequence > lastSequence + 1) {
+				Basic.invalidate("Transaction sequence number not reached.", true);
+			} else if (validatedTx.sequence <= lastSequence) {
+				Basic.invalidate("Transaction sequence number already used.", false);
+			}
+		} catch (error) {
+			Basic.invalidate("Database connection problem.", true, error);
+		}
+		return Basic.txInvalidReason === undefined;
+	}
+
+	/**
+	 * Store the sequence number of a transaction as used, which should only be done once it ends up in a block.
+	 * @param validatedTx A validated transaction with a verified sequence number.
+	 */
+	private async useSequence(validatedTx: Transaction): Promise<void> {
+		try {
+			await this.query("SET LOCAL ROLE smartcontractmanager;", []);
+			await this.query("INSERT INTO basics.sequences (address, sequence) VALUES ($1, $2) " +
+				"ON CONFLICT (address) DO UPDATE SET sequence = $2;", [validatedTx.getAddress(), validatedTx.sequence]);
+			await this.query("SET LOCAL ROLE smartcontract;", []);
+		} catch (error) {
+			Basic.invalidate("Database connection problem.", true, error);
+		}
+	}
+
 	/**
 	 * Finish processing a transaction. Will report back what should be done with the transaction.
 	 * @param validatedTx The validated transaction.
@@ -329,6 +507,19 @@ export class Basic {
 
 		//If it was a properly formatted transaction
 		if (validatedTx !== undefined) {
+			const isSpecialContract = validatedTx.getContractHash().equals(Basic.createContractHash) ||
+				validatedTx.getContractHash().equals(Basic.deleteContractHash) || validatedTx.getContractHash().equals(Basic.rotateKeyContractHash);
+
+			//All create/delete/rotate key contracts must succesfully execute (to make it easier to be backwards compatible)
+			if (isSpecialContract && Basic.txRejectReason !== undefined) {
+				Basic.invalidate(Basic.txRejectReason, false);
+			}
+
+			//Only transactions that end up in a block (accepted or rejected) use their sequence number.
+			if (validatedTx.sequence !== 0 && Basic.txInvalidReason === undefined) {
+				await this.useSequence(validatedTx);
+			}
+
 			if (Basic.txError !== undefined) {
 				//Report any errors that occured during smart contract execution (that a maintainer needs to do something with).
 				//We report them outside the smart contract so we are not bound by the sandbox.
@@ -341,11 +532,7 @@ export class Basic {
 				}
 			}
 
-			if (validatedTx.getContractHash().equals(Basic.createContractHash) || validatedTx.getContractHash().equals(Basic.deleteContractHash)) {
-				//All create/delete contracts must succesfully execute (to make it easier to be backwards compatible)
-				if (Basic.txRejectReason !== undefined) {
-					Basic.invalidate(Basic.txRejectReason, false);
-				}
+			if (isSpecialContract) {
 				//Create/delete cached version of the contract (in case commit fails it must get all contract again)!
 				if (Basic.txInvalidReason === undefined) {
 					if (validatedTx.getContractHash().equals(Basic.createContractHash)) {
@@ -359,8 +546,7 @@ export class Basic {
 								code = '"use strict";' + code;
 							}
 							const contractHash = Crypto.hash256(code);
-							const contractFunction: CodeFunction = new Basic.AsyncFunction("payload", "from", "block", "processor",
-								"previousBlockTimestamp", "previousBlockHash", "transactionId", "currentBlockTimestamp", code).bind(global) as CodeFunction;
+							const contractFunction = Basic.createCodeFunction(code, validanaVersion);
 							this.contractMap.set(contractHash.toString(), {
 								creator: validatedTx.getAddress(),
 								template: typeof payload.template === "string" ? JSON.parse(payload.template) : payload.template,
@@ -369,7 +555,7 @@ export class Basic {
 								type: payload.type
 							});
 						}
-					} else {
+					} else if (validatedTx.getContractHash().equals(Basic.deleteContractHash)) {
 						//Remove a smart contract from cache
 						const payload = validatedTx.getPayloadJson() as DeletePayload;
 						this.contractMap.delete(Crypto.hexToBinary(payload.hash).toString());
@@ -407,9 +593,9 @@ export class Basic {
 	 * @param previousBlockHash The hash of the previous block
 	 * @throws May throw if there are problems, but properly just rejects.
 	 */
-	private async createContract(payload: CreatePayload, from: string, currentBlockId: number, processor: string,
+	private async createContract(payload: CreatePayload, from: string | string[], currentBlockId: number, processor: string,
 		previousBlockTs: number, previousBlockHash: string, transactionId: string, currentBlockTs: number): Promise<void | "OK"> {
-		//Check if user is allowed to create a contract.
+		//Check if user is allowed to create a contract (which is never the case for multi-signature transactions).
 		if (from !== processor) {
 			return Basic.reject("User is not allowed to create a contract.");
 		}
@@ -425,7 +611,7 @@ export class Basic {
 			return Basic.reject("Trying to create an invalid contract: description too long");
 		}
 		const validanaVersion = payload.validanaVersion ?? 1;
-		if (validanaVersion < 1 || validanaVersion > 2) {
+		if (validanaVersion < 1 || validanaVersion > 3) {
 			return Basic.reject("Unsupported contract version");
 		}
 
@@ -436,16 +622,9 @@ export class Basic {
 		if (typeof payload.template !== "object" || payload.template === null || payload.template instanceof Array) {
 			return Basic.reject("Trying to create an invalid contract: template is not an object.");
 		}
-		for (const key of Object.keys(payload.template)) {
-			const value = payload.template[key];
-			if (key.length > 64 ||
-				typeof value !== "object" || value === null || value instanceof Array || Object.keys(value).length > 3 ||
-				typeof value.type !== "string" || value.type.length > 64 ||
-				typeof value.name !== "string" || value.name.length > 64 ||
-				typeof value.desc !== "string" || value.desc.length > 256) {
-
-				return Basic.reject(`Trying to create an invalid contract: template has invalid values: ${key}`);
-			}
+		const templateCheck = this.checkTemplate(payload.template, validanaVersion);
+		if (templateCheck !== undefined) {
+			return Basic.reject(templateCheck);
 		}
 
 		//Check if eighter the init or the code have a value:
@@ -474,14 +653,12 @@ export class Basic {
 		if (codeCheck !== undefined) {
 			return Basic.reject(codeCheck);
 		}
-		//eslint-disable-next-line @typescript-eslint/no-unused-expressions
-		new Basic.AsyncFunction("payload", "from", "block", "processor", "previousBlockTimestamp",
-			"previousBlockHash", "transactionId", "currentBlockTimestamp", contractCode).bind(global);
+		Basic.createCodeFunction(contractCode, validanaVersion);
 
 		//Check if this contract already exists
 		Basic.querySCFast("SET LOCAL ROLE smartcontractmanager;", []);
 		const contractHash = Crypto.hash256(contractCode);
-		if (contractHash.equals(Basic.createContractHash) || contractHash.equals(Basic.deleteContractHash)) {
+		if (contractHash.equals(Basic.createContractHash) || contractHash.equals(Basic.deleteContractHash) || contractHash.equals(Basic.rotateKeyContractHash)) {
 			//Either sha256 is no longer secure or one of the crypto functions was incorrectly implemented.
 			return Basic.reject("Trying to create contract: created contract hash has an impossible value");
 		} else {
@@ -525,6 +702,20 @@ export class Basic {
 		return "OK";
 	}
 
+	/**
+	 * Turn the code of a contract into a function (which may throw an error).
+	 * Only contracts of version 3 and later receive the sponsor, so existing contracts may still declare a variable with that name.
+	 * @param code The code of the contract
+	 * @param validanaVersion The version of validana the contract was created for
+	 */
+	private static createCodeFunction(code: string, validanaVersion: ContractVersion): CodeFunction {
+		const params = ["payload", "from", "block", "processor", "previousBlockTimestamp", "previousBlockHash", "transactionId", "currentBlockTimestamp"];
+		if (validanaVersion >= 3) {
+			params.push("sponsor");
+		}
+		return new Basic.AsyncFunction(...params, code).bind(global) as CodeFunction;
+	}
+
 	/**
 	 * Checks if a code contains invalid code.
 	 * @param code The code to check
@@ -544,12 +735,99 @@ export class Basic {
 		return undefined;
 	}
 
+	/**
+	 * Checks if a template is valid, including the constraints and nested templates of each key.
+	 * @param template The template to check
+	 * @param version The version of the contract the template is for
+	 * @param path The path of keys to the template, in case it is nested
+	 * @returns An error string if something is wrong with the template or undefined if there were no errors
+	 */
+	private checkTemplate(template: Template, version: ContractVersion, path: string = ""): string | undefined {
+		for (const key of Object.keys(template)) {
+			const value = template[key];
+			if (key.length > 64 ||
+				typeof value !== "object" || value === null || value instanceof Array ||
+				typeof value.type !== "string" || value.type.length > 64 ||
+				typeof value.name !== "string" || value.name.length > 64 ||
+				typeof value.desc !== "string" || value.desc.length > 256 ||
+				Object.keys(value).some((entryKey) => (version < 3 ? Basic.templateEntryKeys : Basic.templateEntryKeysV3).indexOf(entryKey) === -1)) {
+
+				return `Trying to create an invalid contract: template has invalid values: ${path}${key}`;
+			}
+
+			//Check if the constraints are valid and can be used for this type.
+			const isArray = value.type.endsWith("Array");
+			const baseType = isArray ? value.type.slice(0, -5) : value.type.endsWith("?") ? value.type.slice(0, -1) : value.type;
+			const isNumber = baseType === "int" || baseType === "uint" || baseType === "float";
+			const isObject = version >= 3 && baseType === "obj";
+			const isTuple = version >= 3 && baseType === "tuple";
+			const isString = !isNumber && !isObject && !isTuple && baseType !== "bool" && baseType !== "json";
+			const isCount = (count: unknown): boolean => count === undefined || Number.isSafeInteger(count) && (count as number) >= 0;
+			if ((value.minimum !== undefined || value.maximum !== undefined) && !isNumber ||
+				(value.minLength !== undefined || value.maxLength !== undefined || value.pattern !== undefined) && !isString ||
+				value.enum !== undefined && !isNumber && !isString ||
+				value.maxItems !== undefined && !isArray ||
+				value.template !== undefined && !isObject ||
+				value.items !== undefined && !isTuple ||
+				value.scale !== undefined && (baseType !== "decimal" || !isCount(value.scale)) ||
+				value.minimum !== undefined && !Number.isFinite(value.minimum) ||
+				value.maximum !== undefined && !Number.isFinite(value.maximum) ||
+				value.minimum !== undefined && value.maximum !== undefined && value.minimum > value.maximum ||
+				!isCount(value.minLength) || !isCount(value.maxLength) || !isCount(value.maxItems) ||
+				value.minLength !== undefined && value.maxLength !== undefined && value.minLength > value.maxLength ||
+				value.pattern !== undefined && value.maxLength === undefined) {
+
+				return `Trying to create an invalid contract: template has invalid constraints: ${path}${key}`;
+			}
+			if (value.pattern !== undefined) {
+				if (typeof value.pattern !== "string" || value.pattern.length > 256) {
+					return `Trying to create an invalid contract: template has invalid constraints: ${path}${key}`;
+				}
+				try {
+					new RegExp(value.pattern); //eslint-disable-line no-new
+				} catch (error) {
+					return `Trying to create an invalid contract: template has invalid pattern: ${path}${key}`;
+				}
+				//Patterns run on untrusted payloads, so they may not backtrack catastrophically.
+				if (!Transaction.isSafePattern(value.pattern)) {
+					return `Trying to create an invalid contract: template has unsafe pattern: ${path}${key}`;
+				}
+			}
+			if (value.enum !== undefined && (!(value.enum instanceof Array) || value.enum.length === 0 || value.enum.length > 64 ||
+				value.enum.some((option) => typeof option !== "boolean" && !Number.isFinite(option) && (typeof option !== "string" || option.length > 256)))) {
+
+				return `Trying to create an invalid contract: template has invalid constraints: ${path}${key}`;
+			}
+
+			//Check the nested template of objects and tuples, where tuple items are checked as if they are keys of a template.
+			if (isObject || isTuple) {
+				const nested = isObject ? value.template : value.items;
+				if (path.split(".").length > Basic.maxTemplateDepth || typeof nested !== "object" || nested === null ||
+					isObject && nested instanceof Array || isTuple && (!(nested instanceof Array) || nested.length === 0 || nested.length > Basic.maxTupleItems)) {
+
+					return `Trying to create an invalid contract: template has invalid nested template: ${path}${key}`;
+				}
+				const nestedCheck = this.checkTemplate(Object.assign({}, nested) as Template, version, `${path}${key}.`);
+				if (nestedCheck !== undefined) {
+					return nestedCheck;
+				}
+			}
+		}
+
+		return undefined;
+	}
+
 	/**
 	 * Delete an existing contract.
 	 * @param payload The payload of the transaction
 	 * @param from Who created this transaction
 	 */
-	private async deleteContract(payload: DeletePayload, from: string): Promise<void | "OK"> {
+	private async deleteContract(payload: DeletePayload, from: string | string[]): Promise<void | "OK"> {
+		//Contracts are created by the processor only, so multi-signature transactions are never the creator.
+		if (typeof from !== "string") {
+			return Basic.reject(`Not creator of contract or contract: ${payload.hash} does not exist.`);
+		}
+
 		//Delete the contract if we are allowed to.
 		Basic.querySCFast("SET LOCAL ROLE smartcontractmanager;", []);
 		const result = await Basic.querySC("DELETE FROM basics.contracts WHERE contract_hash = $1 AND creator = $2;",
@@ -563,6 +841,29 @@ export class Basic {
 		return "OK";
 	}
 
+	/**
+	 * Rotate the processor key, which is used from a future block onwards.
+	 * @param payload The payload of the transaction
+	 * @param from Who created this transaction
+	 * @param currentBlockId The id of the current block
+	 * @param processor The address of the processor
+	 */
+	private async rotateKey(payload: RotateKeyPayload, from: string | string[], currentBlockId: number, processor: string): Promise<void | "OK"> {
+		const rejectReason = ProcessorKeys.getRejectReason(payload, from, processor, currentBlockId);
+		if (rejectReason !== undefined) {
+			return Basic.reject(rejectReason);
+		}
+
+		//Store the key, a later rotation for the same block replaces it.
+		Basic.querySCFast("SET LOCAL ROLE smartcontractmanager;", []);
+		await Basic.querySC("INSERT INTO basics.processor_keys (from_block, public_key) VALUES ($1, $2) "
+			+ "ON CONFLICT (from_block) DO UPDATE SET public_key = $2;", [payload.fromBlock, Crypto.hexToBinary(payload.publicKey)]);
+
+		//Indication that everything succeeded
+		Basic.querySCFast("SET LOCAL ROLE smartcontract;", []);
+		return "OK";
+	}
+
 	/**
 	 * Connects to the database.
 	 * Make sure to only connect at the start of mining a block, to prevent errors and ensure rollbacks occur when needed.
@@ -7,7 +7,11 @@
  */
 
 import { Crypto } from "../tools/crypto";
+import { Merkle } from "../tools/merkle";
+import { BlockHeader } from "./header";
 import { PrivateKey, PublicKey } from "./key";
+import { InclusionProof } from "./proof";
+import { JSONTransaction, Transaction } from "./transaction";
 
 /** An unsigned block. */
 export interface UnsignedBlock {
@@ -24,11 +28,33 @@ export interface DBBlock extends UnsignedBlock {
 	signature: Buffer;
 }
 
+/**
+ * Canonical human-readable representation of a block, which converts back to exactly the same binary data.
+ * All binary values are lower case hex and the transactions use the canonical transaction representation.
+ */
+export interface JSONBlock {
+	version: number;
+	block_id: number;
+	previous_block_hash: string;
+	processed_ts: number;
+	/** Only for version 2 and later, if given when converting from json it must match the transactions. */
+	merkle_root?: string;
+	transactions: JSONTransaction[];
+	signature: string;
+}
+
 /** A class representing a block. */
 export class Block {
 	/** The length of a block with no transactions. */
 	public static readonly emptyLength = 113;
-	/** Data consists of 4 bytes block length, 1 version, 8 blockId, 32 previousBlockHash, 8 processedTs, ? transactions, 64 signature */
+	/** The length of a version 2 block with no transactions. */
+	public static readonly emptyLengthV2 = 145;
+	/** The latest supported block version. */
+	public static readonly maxVersion = 2;
+	/**
+	 * Data consists of 4 bytes block length, 1 version, 8 blockId, 32 previousBlockHash, 8 processedTs, ? transactions, 64 signature
+	 * Version 2 has a 32 merkleRoot of the transactions after the processedTs, the signature and hash only cover up to and including it.
+	 */
 	public readonly data: Buffer;
 	/** The version of the block. */
 	public readonly version: number;
@@ -40,6 +66,8 @@ export class Block {
 	public readonly processedTs: number;
 	/** Amount of transactions in this block. */
 	public readonly transactionsAmount: number;
+	/** Where each transaction (including its length) starts in the data, followed by where the transactions end. */
+	private readonly transactionOffsets: number[];
 
 	/**
 	 * Create a new block based on data send from other nodes, or based on a block found in the database.
@@ -48,34 +76,34 @@ export class Block {
 	 *  the previousBlockHash, the signature or the transactions inside the block.
 	 */
 	constructor(block: Buffer | DBBlock) {
+		//May throw an error if the buffer is too short.
+		this.version = block instanceof Buffer ? Crypto.binaryToUInt8(block.slice(4, 5)) : block.version;
+		if (this.version !== 1 && this.version !== 2) {
+			throw new Error("Unsupported version.");
+		}
+
 		if (block instanceof Buffer) {
 			this.data = block;
-			//May throw an error if the buffer is too short.
 			this.totalLength = Crypto.binaryToUInt32(block.slice(0, 4));
-			this.version = Crypto.binaryToUInt8(block.slice(4, 5));
 			this.id = Crypto.binaryToULong(block.slice(5, 13));
 			this.processedTs = Crypto.binaryToULong(block.slice(45, 53));
 		} else {
 			this.id = block.block_id;
 			this.processedTs = block.processed_ts;
-			this.version = block.version;
 			this.data = Buffer.concat([
-				Crypto.uInt32ToBinary(block.transactions.length + Block.emptyLength),
-				Crypto.uInt8ToBinary(1),
+				Crypto.uInt32ToBinary(block.transactions.length + (this.version === 1 ? Block.emptyLength : Block.emptyLengthV2)),
+				Crypto.uInt8ToBinary(this.version),
 				Crypto.uLongToBinary(this.id),
 				block.previous_block_hash,
 				Crypto.uLongToBinary(this.processedTs),
+				this.version === 1 ? Buffer.alloc(0) : Block.calculateMerkleRoot(block.transactions),
 				block.transactions,
 				block.signature
 			]);
 		}
 
-		if (this.version !== 1) {
-			throw new Error("Unsupported version.");
-		}
-
 		this.totalLength = this.data.length - 4;
-		if (this.totalLength < Block.emptyLength) {
+		if (this.totalLength < (this.version === 1 ? Block.emptyLength : Block.emptyLengthV2)) {
 			throw new Error("Unable to construct block.");
 		}
 
@@ -87,15 +115,8 @@ export class Block {
 			throw new Error("Invalid block processed timestamp");
 		}
 
-		this.transactionsAmount = 0;
-		let location = 53;
-		while (location + 4 <= this.data.length - 64) {
-			location += Crypto.binaryToUInt32(this.data.slice(location, location + 4)) + 4;
-			this.transactionsAmount++;
-		}
-		if (location !== this.data.length - 64) {
-			throw new Error("Invalid format for transactions inside block.");
-		}
+		this.transactionOffsets = Block.getTransactionOffsets(this.data, this.version === 1 ? 53 : 85, this.data.length - 64);
+		this.transactionsAmount = this.transactionOffsets.length - 1;
 	}
 
 	/**
@@ -143,17 +164,19 @@ export class Block {
 	 * @throws If a block could not be constructed, but will not verify the correctness of all values.
 	 */
 	public static sign(block: UnsignedBlock, signPrefix: Buffer, privKey: PrivateKey): Block {
-		if (block.version !== 1) {
+		if (block.version !== 1 && block.version !== 2) {
 			throw new Error("Unsupported version.");
 		}
-		const data = Buffer.concat([
+		const header = Buffer.concat([
 			Crypto.uInt8ToBinary(block.version),
 			Crypto.uLongToBinary(block.block_id),
 			block.previous_block_hash,
 			Crypto.uLongToBinary(block.processed_ts),
-			block.transactions
+			block.version === 1 ? Buffer.alloc(0) : Block.calculateMerkleRoot(block.transactions)
 		]);
-		const signature = privKey.sign(Buffer.concat([signPrefix, data]));
+		const data = Buffer.concat([header, block.transactions]);
+		//Version 2 only signs the header, which contains the merkle root of the transactions.
+		const signature = privKey.sign(Buffer.concat([signPrefix, block.version === 1 ? data : header]));
 		return new Block(Buffer.concat([
 			Crypto.uInt32ToBinary(data.length + signature.length),
 			data,
@@ -161,6 +184,74 @@ export class Block {
 		]));
 	}
 
+	/**
+	 * Calculate the merkle root of transactions, which version 2 blocks contain.
+	 * Each leaf is the transaction as found in the block (including its length), see Merkle.hashLeaf().
+	 * @param transactions The merged transactions.
+	 * @throws If the transactions are not correctly merged.
+	 */
+	public static calculateMerkleRoot(transactions: Buffer): Buffer {
+		return Merkle.getRoot(Block.getLeafHashes(transactions, Block.getTransactionOffsets(transactions, 0, transactions.length)));
+	}
+
+	/**
+	 * Create a block from its canonical json representation, see toJSON().
+	 * @param json The json representation.
+	 * @throws If the json is not a valid block or contains invalid transactions.
+	 */
+	public static fromJSON(json: JSONBlock): Block {
+		if (typeof json.previous_block_hash !== "string" || !Crypto.isHex(json.previous_block_hash) || json.previous_block_hash.length !== 64) {
+			throw new Error("Invalid previous block hash.");
+		}
+		if (typeof json.signature !== "string" || !Crypto.isHex(json.signature) || json.signature.length !== 128) {
+			throw new Error("Invalid signature.");
+		}
+		if (!(json.transactions instanceof Array)) {
+			throw new Error("Invalid transactions.");
+		}
+		const transactions = Transaction.merge(json.transactions.map((transaction) => Transaction.fromJSON(transaction)));
+		const block = new Block({
+			version: json.version,
+			block_id: json.block_id,
+			previous_block_hash: Crypto.hexToBinary(json.previous_block_hash),
+			processed_ts: json.processed_ts,
+			transactions,
+			transactions_amount: json.transactions.length,
+			signature: Crypto.hexToBinary(json.signature)
+		});
+		if (json.merkle_root !== undefined && (block.version === 1 || json.merkle_root !== Crypto.binaryToHex(block.getMerkleRoot()))) {
+			throw new Error("Invalid merkle root.");
+		}
+		return block;
+	}
+
+	/**
+	 * Get where each transaction (including its length) starts, followed by where the transactions end.
+	 * @throws If the transactions are not correctly merged.
+	 */
+	private static getTransactionOffsets(data: Buffer, start: number, end: number): number[] {
+		const offsets: number[] = [];
+		let location = start;
+		while (location + 4 <= end) {
+			offsets.push(location);
+			location += Crypto.binaryToUInt32(data.slice(location, location + 4)) + 4;
+		}
+		if (location !== end) {
+			throw new Error("Invalid format for transactions inside block.");
+		}
+		offsets.push(location);
+		return offsets;
+	}
+
+	/** Get the merkle leaf hashes of the transactions at the given offsets, see getTransactionOffsets(). */
+	private static getLeafHashes(data: Buffer, offsets: number[]): Buffer[] {
+		const leafHashes: Buffer[] = [];
+		for (let i = 0; i < offsets.length - 1; i++) {
+			leafHashes.push(Merkle.hashLeaf(data.slice(offsets[i], offsets[i + 1])));
+		}
+		return leafHashes;
+	}
+
 	/** Get the previous block hash. */
 	public getPreviousBlockHash(): Buffer {
 		return this.data.slice(13, 45);
@@ -169,9 +260,99 @@ export class Block {
 	/**
 	 * Get the transactions in this block.
 	 * You can use Transaction.unmerge() to get an array of transactions from this.
+	 * Use getTransaction() or iterateTransactions() to avoid parsing all transactions at once.
 	 */
 	public getTransactions(): Buffer {
-		return this.data.slice(53, -64);
+		return this.data.slice(this.transactionOffsets[0], -64);
+	}
+
+	/**
+	 * Get the merkle root of the transactions in this block.
+	 * @throws If the block version has no merkle root.
+	 */
+	public getMerkleRoot(): Buffer {
+		if (this.version === 1) {
+			throw new Error("Block has no merkle root.");
+		}
+		return this.data.slice(53, 85);
+	}
+
+	/**
+	 * Verify if the merkle root matches the transactions in this block.
+	 * @throws If the block version has no merkle root.
+	 */
+	public verifyMerkleRoot(): boolean {
+		return this.getMerkleRoot().equals(Merkle.getRoot(Block.getLeafHashes(this.data, this.transactionOffsets)));
+	}
+
+	/**
+	 * Get the header of this block, which has the same hash and signature but no transactions.
+	 * @throws If the block version has no header.
+	 */
+	public getHeader(): BlockHeader {
+		if (this.version === 1) {
+			throw new Error("Block has no header.");
+		}
+		return BlockHeader.create(this.getSignedData(), this.getSignature());
+	}
+
+	/**
+	 * Create a proof that a transaction is part of this block, which can be verified without the rest of the block.
+	 * @param index The position of the transaction in this block.
+	 * @throws If the index is invalid or the block version has no merkle root.
+	 */
+	public getInclusionProof(index: number): InclusionProof {
+		if (this.version === 1) {
+			throw new Error("Block has no merkle root.");
+		}
+		if (!Number.isInteger(index) || index < 0 || index >= this.transactionsAmount) {
+			throw new Error("Invalid transaction index.");
+		}
+		return InclusionProof.create(this.getHeader(), index, this.transactionsAmount,
+			Merkle.getProof(Block.getLeafHashes(this.data, this.transactionOffsets), index),
+			this.data.slice(this.transactionOffsets[index], this.transactionOffsets[index + 1]));
+	}
+
+	/**
+	 * Get a single transaction in this block without parsing the others.
+	 * @param index The position of the transaction in this block.
+	 * @throws If the index is invalid or the transaction could not be constructed.
+	 */
+	public getTransaction(index: number): Transaction {
+		if (!Number.isInteger(index) || index < 0 || index >= this.transactionsAmount) {
+			throw new Error("Invalid transaction index.");
+		}
+		return new Transaction(this.data.slice(this.transactionOffsets[index], this.transactionOffsets[index + 1]));
+	}
+
+	/**
+	 * Find a transaction in this block by its id, only the matching transaction is parsed.
+	 * @param id The id of the transaction.
+	 * @returns The transaction or undefined if it is not in this block.
+	 * @throws If the id is invalid or the transaction could not be constructed.
+	 */
+	public getTransactionById(id: Buffer): Transaction | undefined {
+		if (!(id instanceof Buffer) || id.length !== 16) {
+			throw new Error("Invalid transaction id.");
+		}
+		for (let i = 0; i < this.transactionsAmount; i++) {
+			//The id comes after the 4 bytes length and 1 byte version.
+			const start = this.transactionOffsets[i] + 5;
+			if (start + 16 <= this.transactionOffsets[i + 1] && this.data.slice(start, start + 16).equals(id)) {
+				return this.getTransaction(i);
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Iterate over the transactions in this block, each transaction is only parsed once it is reached.
+	 * @throws If a transaction could not be constructed, once it is reached.
+	 */
+	public *iterateTransactions(): IterableIterator<Transaction> {
+		for (let i = 0; i < this.transactionsAmount; i++) {
+			yield this.getTransaction(i);
+		}
 	}
 
 	/** Get the signature of this block. */
@@ -180,25 +361,45 @@ export class Block {
 	}
 
 	/**
-	 * Calculates the hash of this block.
+	 * Get the canonical json representation of this block, which fromJSON() turns back into exactly the same block.
+	 * @throws If the transactions inside the block are not valid transactions.
+	 */
+	public toJSON(): JSONBlock {
+		const result: JSONBlock = {
+			version: this.version,
+			block_id: this.id,
+			previous_block_hash: Crypto.binaryToHex(this.getPreviousBlockHash()),
+			processed_ts: this.processedTs,
+			transactions: Transaction.unmerge(this.getTransactions()).map((transaction) => transaction.toJSON()),
+			signature: Crypto.binaryToHex(this.getSignature())
+		};
+		if (this.version >= 2) {
+			result.merkle_root = Crypto.binaryToHex(this.getMerkleRoot());
+		}
+		return result;
+	}
+
+	/**
+	 * Calculates the hash of this block, which for version 2 only covers the header.
 	 * @param signPrefix the prefix to use.
 	 */
 	public getHash(signPrefix: Buffer): Buffer {
 		return Crypto.hash256(Buffer.concat([
 			signPrefix,
-			this.data.slice(4, -64)
+			this.getSignedData()
 		]));
 	}
 
 	/**
-	 * Verify if this signature is correct.
+	 * Verify if this signature is correct, for version 2 this includes verifying the merkle root.
 	 * @param signPrefix The prefix to check against.
 	 * @param pubKey The public key of the processor.
 	 */
 	public verifySignature(signPrefix: Buffer, pubKey: PublicKey): boolean {
 		//If we don't know yet if this signature is valid validate it now.
 		try {
-			return pubKey.verify(Buffer.concat([signPrefix, this.data.slice(4, -64)]), this.getSignature());
+			return pubKey.verify(Buffer.concat([signPrefix, this.getSignedData()]), this.getSignature()) &&
+				(this.version === 1 || this.verifyMerkleRoot());
 		} catch (error) {
 			return false;
 		}
@@ -207,10 +408,10 @@ export class Block {
 	/**
 	 * Verify that the previousBlockHash and processedTimestamp are indeed correct compared to the previous block.
 	 * @param signPrefix The prefix to use to determine the currentblock and previous block hashes.
-	 * @param previousBlock The previous block or undefined if this is the first block.
+	 * @param previousBlock The previous block (header) or undefined if this is the first block.
 	 * @throws If the previous block id is not correct.
 	 */
-	public verifyWithPreviousBlock(signPrefix: Buffer, previousBlock: Block | undefined): boolean {
+	public verifyWithPreviousBlock(signPrefix: Buffer, previousBlock: Block | BlockHeader | undefined): boolean {
 		if (previousBlock !== undefined) {
 			if (this.id === previousBlock.id + 1) {
 				//Verify previous block hash and make sure we go forwards in time.
@@ -228,4 +429,9 @@ export class Block {
 			}
 		}
 	}
+
+	/** Get the data that is signed and hashed: everything but the length and signature, or only the header for version 2. */
+	private getSignedData(): Buffer {
+		return this.version === 1 ? this.data.slice(4, -64) : this.data.slice(4, 85);
+	}
 }
\ No newline at end of file
@@ -0,0 +1,300 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { Template, ContractVersion, Contract } from "./basic";
+import { Transaction, UnsignedTx, TemplateViolation, PayloadEncoding } from "./transaction";
+import { PrivateKey } from "./key";
+
+/**
+ * Build a transaction step by step, validating it before it is signed.
+ * Example: new TransactionBuilder(contractHash, contract).payload({ amount: 5 }).validFor(60000).sign(signPrefix, privateKey)
+ */
+export class TransactionBuilder {
+	private readonly contractHash: Buffer;
+	private transactionId: Buffer | undefined;
+	private validTillValue: number = 0;
+	private payloadValue: string = "{}";
+	private contractTemplate: Template | undefined;
+	private contractVersion: ContractVersion = 1;
+	private threshold: number | undefined;
+	private publicKeys: Buffer[] | undefined;
+	private validFromValue: number = 0;
+	private validFromBlock: number = 0;
+	private validTillBlock: number = 0;
+	private sequenceValue: number = 0;
+	private dependencies: Buffer[] = [];
+	private payloadEncoding: PayloadEncoding = PayloadEncoding.Raw;
+	private sponsoredValue: boolean = false;
+
+	/**
+	 * Create a new builder for a transaction.
+	 * @param contractHash The hash of the contract to create a transaction for.
+	 * @param contract The contract, if given the payload is validated against its template.
+	 * @throws if the contract hash is not 32 bytes.
+	 */
+	constructor(contractHash: Buffer, contract?: Pick<Contract, "template" | "validanaVersion">) {
+		if (!(contractHash instanceof Buffer) || contractHash.length !== 32) {
+			throw new Error("Invalid contract hash.");
+		}
+		this.contractHash = contractHash;
+		if (contract !== undefined) {
+			this.template(contract.template, contract.validanaVersion);
+		}
+	}
+
+	/**
+	 * Validate the payload against a template.
+	 * @param template The template to validate against.
+	 * @param version The version of the contract the template is for.
+	 */
+	public template(template: Template, version: ContractVersion = 1): this {
+		this.contractTemplate = template;
+		this.contractVersion = version;
+		return this;
+	}
+
+	/**
+	 * Use a specific transaction id instead of a randomly generated one.
+	 * @throws if the id is not 16 bytes.
+	 */
+	public id(transactionId: Buffer): this {
+		if (!(transactionId instanceof Buffer) || transactionId.length !== 16) {
+			throw new Error("Invalid transaction id.");
+		}
+		this.transactionId = transactionId;
+		return this;
+	}
+
+	/**
+	 * Set the payload of the transaction.
+	 * @param payload The payload, either as object or as json encoded string.
+	 * @throws if the payload could not be encoded as json.
+	 */
+	public payload(payload: object | string): this {
+		const encoded = typeof payload === "string" ? payload : JSON.stringify(payload);
+		if (typeof encoded !== "string") {
+			throw new Error("Invalid payload.");
+		}
+		this.payloadValue = encoded;
+		return this;
+	}
+
+	/**
+	 * Until and including what previousBlockTimestamp the transaction is valid, 0 = no expiration.
+	 * @throws if it is not a valid timestamp.
+	 */
+	public validTill(timestamp: number): this {
+		if (timestamp < 0 || !Number.isSafeInteger(timestamp)) {
+			throw new Error("Invalid 'valid till'.");
+		}
+		this.validTillValue = timestamp;
+		return this;
+	}
+
+	/**
+	 * Make the transaction valid for a duration from now on.
+	 * @param duration The duration in milliseconds.
+	 * @param now The current time (milliseconds since unix epoch).
+	 * @throws if it does not result in a valid timestamp.
+	 */
+	public validFor(duration: number, now: number = Date.now()): this {
+		if (duration <= 0) {
+			throw new Error("Invalid duration.");
+		}
+		return this.validTill(Math.floor(now + duration));
+	}
+
+	/**
+	 * From what previousBlockTimestamp onwards the transaction is valid, 0 = always.
+	 * @throws if it is not a valid timestamp.
+	 */
+	public validFrom(timestamp: number): this {
+		if (timestamp < 0 || !Number.isSafeInteger(timestamp)) {
+			throw new Error("Invalid 'valid from'.");
+		}
+		this.validFromValue = timestamp;
+		return this;
+	}
+
+	/**
+	 * In what blocks the transaction is valid.
+	 * @param from From what block id onwards it is valid, 0 = always.
+	 * @param till Until and including what block id it is valid, 0 = no expiration.
+	 * @throws if they are not valid block ids.
+	 */
+	public validBlocks(from: number, till: number = 0): this {
+		if (from < 0 || till < 0 || !Number.isSafeInteger(from) || !Number.isSafeInteger(till) || (till !== 0 && till < from)) {
+			throw new Error("Invalid block ids.");
+		}
+		this.validFromBlock = from;
+		this.validTillBlock = till;
+		return this;
+	}
+
+	/**
+	 * Set the sequence number, every next transaction of the sender must use the next number, starting at 1. 0 = not used.
+	 * @throws if it is not a valid sequence number.
+	 */
+	public sequence(sequence: number): this {
+		if (sequence < 0 || !Number.isSafeInteger(sequence)) {
+			throw new Error("Invalid sequence number.");
+		}
+		this.sequenceValue = sequence;
+		return this;
+	}
+
+	/**
+	 * Only accept the transaction after other transactions have been accepted.
+	 * @param transactionIds The ids of the transactions that must be accepted first.
+	 * @throws if an id is not 16 bytes or there are too many.
+	 */
+	public after(...transactionIds: Buffer[]): this {
+		if (transactionIds.some((id) => !(id instanceof Buffer) || id.length !== 16)) {
+			throw new Error("Invalid transaction id.");
+		}
+		if (this.dependencies.length + transactionIds.length > Transaction.maxDependencies) {
+			throw new Error("Too many dependencies.");
+		}
+		this.dependencies.push(...transactionIds);
+		return this;
+	}
+
+	/**
+	 * Compress the payload, so larger payloads fit in a transaction.
+	 * @param compress Whether to compress the payload or not.
+	 */
+	public compress(compress: boolean = true): this {
+		this.payloadEncoding = compress ? PayloadEncoding.Deflate : PayloadEncoding.Raw;
+		return this;
+	}
+
+	/**
+	 * Require the transaction to also be signed by a sponsor, see Transaction.sponsor().
+	 * @param sponsored Whether the transaction is sponsored or not.
+	 */
+	public sponsored(sponsored: boolean = true): this {
+		this.sponsoredValue = sponsored;
+		return this;
+	}
+
+	/**
+	 * Create a multi-signature transaction instead of a single signature transaction.
+	 * @param threshold The amount of signatures required.
+	 * @param publicKeys The public keys that may sign.
+	 */
+	public multiSig(threshold: number, publicKeys: Buffer[]): this {
+		this.threshold = threshold;
+		this.publicKeys = publicKeys;
+		return this;
+	}
+
+	/** Get everything that is wrong with the payload for the template, or an empty array if there is no template. */
+	public validate(): TemplateViolation[] {
+		if (this.contractTemplate === undefined) {
+			return [];
+		}
+		let payload: unknown;
+		try {
+			payload = JSON.parse(this.payloadValue);
+		} catch (error) {
+			return [{ path: "", expected: "object", actual: "invalid json", message: "Payload is invalid json." }];
+		}
+		return Transaction.getPayloadViolations(payload, this.contractTemplate, this.contractVersion);
+	}
+
+	/**
+	 * Build the unsigned transaction.
+	 * @throws if the payload is too large or not valid for the template, or it uses features that cannot be combined.
+	 */
+	public build(): UnsignedTx {
+		//Use the lowest version that supports all features.
+		let version = 1;
+		if (this.validFromValue !== 0 || this.validFromBlock !== 0 || this.validTillBlock !== 0) {
+			version = 3;
+		}
+		if (this.sequenceValue !== 0) {
+			version = 4;
+		}
+		if (this.dependencies.length > 0) {
+			version = 5;
+		}
+		if (this.payloadEncoding !== PayloadEncoding.Raw) {
+			version = 6;
+		}
+		if (this.sponsoredValue) {
+			version = 7;
+		}
+		if (this.publicKeys !== undefined) {
+			if (version !== 1) {
+				throw new Error("Multi-signature transactions do not support a validity window, sequence number, dependencies, compression or sponsors.");
+			}
+			version = 2;
+		}
+		const payload = Crypto.utf8ToBinary(this.payloadValue);
+		if (payload.length > (this.payloadEncoding === PayloadEncoding.Raw ? Transaction.maxPayloadLength : Transaction.maxDecodedPayloadLength) ||
+			Transaction.encodePayload(payload, this.payloadEncoding).length > Transaction.maxPayloadLength) {
+			throw new Error("Payload too large.");
+		}
+		const violations = this.validate();
+		if (violations.length > 0) {
+			throw new Error(violations[0].message);
+		}
+		if (this.transactionId === undefined) {
+			this.transactionId = Transaction.generateId();
+		}
+		const result: UnsignedTx = {
+			version,
+			transaction_id: this.transactionId,
+			contract_hash: this.contractHash,
+			valid_till: this.validTillValue,
+			payload: this.payloadValue
+		};
+		if (this.publicKeys !== undefined) {
+			result.threshold = this.threshold;
+			result.public_keys = this.publicKeys;
+		}
+		if (version >= 3) {
+			result.valid_from = this.validFromValue;
+			result.valid_from_block = this.validFromBlock;
+			result.valid_till_block = this.validTillBlock;
+		}
+		if (version >= 4) {
+			result.sequence = this.sequenceValue;
+		}
+		if (version >= 5) {
+			result.dependencies = this.dependencies.slice();
+		}
+		if (version >= 6) {
+			result.payload_encoding = this.payloadEncoding;
+		}
+		if (version >= 7) {
+			result.sponsored = this.sponsoredValue;
+		}
+		return result;
+	}
+
+	/**
+	 * Build the unsigned transaction as binary data for signing elsewhere, which Transaction.sign() accepts.
+	 * @throws if the transaction is not valid.
+	 */
+	public toBinary(): Buffer {
+		const data = Transaction.getSignData(this.build());
+		return Buffer.concat([Crypto.uInt32ToBinary(data.length), data]);
+	}
+
+	/**
+	 * Build and sign the transaction.
+	 * @param signPrefix The prefix to use for signing.
+	 * @param privKey The private key to use for signing.
+	 * @throws if the transaction is not valid.
+	 */
+	public sign(signPrefix: Buffer, privKey: PrivateKey): Transaction {
+		return Transaction.sign(this.build(), signPrefix, privKey);
+	}
+}
\ No newline at end of file
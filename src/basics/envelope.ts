@@ -0,0 +1,360 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { PayloadEncoding, Transaction, UnsignedTx } from "./transaction";
+import { PrivateKey, PublicKey } from "./key";
+
+/** A signature for an envelope, created on the machine that has the private key. */
+export interface EnvelopeSignature {
+	public_key: Buffer;
+	/** The signature, consists of 32 bytes r, followed by 32 bytes s. */
+	signature: Buffer;
+}
+
+/**
+ * An unsigned transaction with everything needed to sign it elsewhere, such as on an air-gapped machine.
+ * The envelope is serialized to a file or base64url, signed with sign() and the signatures are combined into a transaction with combine().
+ */
+export class TxEnvelope {
+	/** The type used in the file format. */
+	public static readonly fileType = "validana-unsigned-transaction";
+	/** The version of the file and binary format. */
+	public static readonly formatVersion = 1;
+	/** The unsigned transaction. */
+	public readonly tx: UnsignedTx;
+	/** The prefix to use for signing. */
+	public readonly signPrefix: Buffer;
+	//The data that is signed (excluding the sign prefix).
+	private readonly signData: Buffer;
+
+	/**
+	 * Create a new envelope.
+	 * @param tx The unsigned transaction.
+	 * @param signPrefix The prefix to use for signing.
+	 * @throws if the unsigned transaction is not valid.
+	 */
+	constructor(tx: UnsignedTx, signPrefix: Buffer) {
+		if (!Number.isInteger(tx.version) || tx.version < 1 || tx.version > Transaction.maxVersion) {
+			throw new Error("Unsupported version.");
+		}
+		if (!(tx.transaction_id instanceof Buffer) || tx.transaction_id.length !== 16) {
+			throw new Error("Invalid transaction id.");
+		}
+		if (!(tx.contract_hash instanceof Buffer) || tx.contract_hash.length !== 32) {
+			throw new Error("Invalid contract hash.");
+		}
+		if (tx.valid_till < 0 || !Number.isSafeInteger(tx.valid_till)) {
+			throw new Error("Invalid 'valid till'.");
+		}
+		for (const value of [tx.valid_from, tx.valid_from_block, tx.valid_till_block]) {
+			if (value !== undefined && (tx.version < 3 || value < 0 || !Number.isSafeInteger(value))) {
+				throw new Error("Invalid validity window.");
+			}
+		}
+		if (tx.sequence !== undefined && (tx.version < 4 || tx.sequence < 0 || !Number.isSafeInteger(tx.sequence))) {
+			throw new Error("Invalid sequence number.");
+		}
+		if (tx.dependencies !== undefined && (tx.version < 5 || !(tx.dependencies instanceof Array) || tx.dependencies.length > Transaction.maxDependencies ||
+			tx.dependencies.some((id) => !(id instanceof Buffer) || id.length !== 16))) {
+			throw new Error("Invalid dependencies.");
+		}
+		if (tx.sponsored !== undefined && (tx.version < 7 || typeof tx.sponsored !== "boolean")) {
+			throw new Error("Invalid sponsored.");
+		}
+		if (tx.payload_encoding !== undefined && (tx.version < 6 || (tx.payload_encoding !== PayloadEncoding.Raw && tx.payload_encoding !== PayloadEncoding.Deflate))) {
+			throw new Error("Unsupported payload encoding.");
+		}
+		if (typeof tx.payload !== "string" || Crypto.utf8ToBinary(tx.payload).length > (tx.payload_encoding === PayloadEncoding.Deflate ?
+			Transaction.maxDecodedPayloadLength : Transaction.maxPayloadLength)) {
+			throw new Error("Invalid payload.");
+		}
+		if (tx.encoded_payload !== undefined && (tx.version < 6 || (tx.payload_encoding ?? PayloadEncoding.Raw) === PayloadEncoding.Raw ||
+			!(tx.encoded_payload instanceof Buffer) || !Transaction.decodePayload(tx.encoded_payload, tx.payload_encoding!).equals(Crypto.utf8ToBinary(tx.payload)))) {
+			throw new Error("Invalid encoded payload.");
+		}
+		if (tx.version === 2 && (tx.public_keys ?? []).some((publicKey) => !PublicKey.isValidPublic(publicKey))) {
+			throw new Error("Invalid public key.");
+		}
+		//Encode the payload only once, as compression may differ between the machines that sign and combine.
+		if (tx.version >= 6 && tx.encoded_payload === undefined && (tx.payload_encoding ?? PayloadEncoding.Raw) !== PayloadEncoding.Raw) {
+			tx = Object.assign({}, tx, { encoded_payload: Transaction.encodePayload(Crypto.utf8ToBinary(tx.payload), tx.payload_encoding!) });
+		}
+		this.tx = tx;
+		this.signPrefix = signPrefix;
+		this.signData = Transaction.getSignData(tx);
+		if (this.getEncodedPayloadLength() > Transaction.maxPayloadLength) {
+			throw new Error("Invalid payload.");
+		}
+	}
+
+	/**
+	 * Read an envelope from a file created with toFile().
+	 * @param file The content of the file.
+	 * @throws if the file is not a valid envelope or the summary does not match the transaction.
+	 */
+	public static fromFile(file: string): TxEnvelope {
+		const json = JSON.parse(file);
+		if (typeof json !== "object" || json === null || json.type !== TxEnvelope.fileType || json.format !== TxEnvelope.formatVersion) {
+			throw new Error("Not an unsigned transaction.");
+		}
+		const tx = json.transaction;
+		if (typeof tx !== "object" || tx === null || !TxEnvelope.isHex(json.sign_prefix) || !TxEnvelope.isHex(tx.transaction_id) || !TxEnvelope.isHex(tx.contract_hash)) {
+			throw new Error("Invalid unsigned transaction.");
+		}
+		const unsignedTx: UnsignedTx = {
+			version: tx.version,
+			transaction_id: Crypto.hexToBinary(tx.transaction_id),
+			contract_hash: Crypto.hexToBinary(tx.contract_hash),
+			valid_till: tx.valid_till,
+			payload: tx.payload
+		};
+		if (tx.version === 2) {
+			if (!(tx.public_keys instanceof Array) || !(tx.public_keys as unknown[]).every((publicKey) => TxEnvelope.isHex(publicKey))) {
+				throw new Error("Invalid public key.");
+			}
+			unsignedTx.threshold = tx.threshold;
+			unsignedTx.public_keys = tx.public_keys.map((publicKey: string) => Crypto.hexToBinary(publicKey));
+		}
+		if (tx.version >= 3) {
+			unsignedTx.valid_from = tx.valid_from;
+			unsignedTx.valid_from_block = tx.valid_from_block;
+			unsignedTx.valid_till_block = tx.valid_till_block;
+		}
+		if (tx.version >= 4) {
+			unsignedTx.sequence = tx.sequence;
+		}
+		if (tx.version >= 5) {
+			if (!(tx.dependencies instanceof Array) || !(tx.dependencies as unknown[]).every((id) => TxEnvelope.isHex(id))) {
+				throw new Error("Invalid dependencies.");
+			}
+			unsignedTx.dependencies = tx.dependencies.map((id: string) => Crypto.hexToBinary(id));
+		}
+		if (tx.version >= 6) {
+			unsignedTx.payload_encoding = tx.payload_encoding;
+			if (tx.encoded_payload !== undefined) {
+				if (!TxEnvelope.isHex(tx.encoded_payload)) {
+					throw new Error("Invalid encoded payload.");
+				}
+				unsignedTx.encoded_payload = Crypto.hexToBinary(tx.encoded_payload);
+			}
+		}
+		if (tx.version >= 7) {
+			unsignedTx.sponsored = tx.sponsored;
+		}
+		const result = new TxEnvelope(unsignedTx, Crypto.hexToBinary(json.sign_prefix));
+		if (json.summary !== result.getSummary()) {
+			throw new Error("Summary does not match transaction.");
+		}
+		return result;
+	}
+
+	/**
+	 * Read an envelope created with toBase64Url().
+	 * @param base64url The envelope.
+	 * @throws if it is not a valid envelope.
+	 */
+	public static fromBase64Url(base64url: string): TxEnvelope {
+		if (!Crypto.isBase64Url(base64url)) {
+			throw new Error("Invalid base64url.");
+		}
+		const data = Crypto.base64UrlToBinary(base64url);
+		if (data.length < 5 || Crypto.binaryToUInt8(data.slice(0, 1)) !== TxEnvelope.formatVersion) {
+			throw new Error("Not an unsigned transaction.");
+		}
+		const prefixEnd = 5 + Crypto.binaryToUInt32(data.slice(1, 5));
+		if (prefixEnd > data.length) {
+			throw new Error("Invalid sign prefix.");
+		}
+		const signData = data.slice(prefixEnd);
+		const result = new TxEnvelope(Transaction.parseSignData(signData), data.slice(5, prefixEnd));
+		//Payloads that are not valid utf8 cannot be represented.
+		if (!result.signData.equals(signData)) {
+			throw new Error("Invalid payload.");
+		}
+		return result;
+	}
+
+	/** Serialize a signature created with sign(), so it can be transferred back. */
+	public static signatureToBase64Url(signature: EnvelopeSignature): string {
+		return Crypto.binaryToBase64Url(Buffer.concat([signature.public_key, signature.signature]));
+	}
+
+	/**
+	 * Read a signature serialized with signatureToBase64Url().
+	 * @throws if it is not a valid signature.
+	 */
+	public static signatureFromBase64Url(base64url: string): EnvelopeSignature {
+		const data = Crypto.isBase64Url(base64url) ? Crypto.base64UrlToBinary(base64url) : Buffer.alloc(0);
+		if (data.length !== 97) {
+			throw new Error("Invalid signature.");
+		}
+		return { public_key: data.slice(0, 33), signature: data.slice(33) };
+	}
+
+	/** Check if a value from a file is a hex string. */
+	private static isHex(value: unknown): value is string {
+		return typeof value === "string" && Crypto.isHex(value);
+	}
+
+	/** Format a timestamp for the summary. */
+	private static formatTime(timestamp: number): string {
+		return timestamp <= 8640000000000000 ? new Date(timestamp).toISOString() : timestamp.toString();
+	}
+
+	/** Get a human-readable summary of what is being signed. */
+	public getSummary(): string {
+		let summary = `Transaction: ${Crypto.binaryToHex(this.tx.transaction_id)} (version ${this.tx.version})\n` +
+			`Contract: ${Crypto.binaryToHex(this.tx.contract_hash)}\n` +
+			`Valid till: ${this.tx.valid_till === 0 ? "no expiration" : TxEnvelope.formatTime(this.tx.valid_till)}\n`;
+		if (this.tx.version >= 3) {
+			const validTillBlock = this.tx.valid_till_block ?? 0;
+			summary += `Valid from: ${(this.tx.valid_from ?? 0) === 0 ? "always" : TxEnvelope.formatTime(this.tx.valid_from!)}\n` +
+				`Valid blocks: ${this.tx.valid_from_block ?? 0} till ${validTillBlock === 0 ? "no expiration" : validTillBlock}\n`;
+		}
+		if (this.tx.version >= 4) {
+			summary += `Sequence: ${(this.tx.sequence ?? 0) === 0 ? "not used" : this.tx.sequence}\n`;
+		}
+		if (this.tx.version >= 5) {
+			const dependencies = (this.tx.dependencies ?? []).map((id) => Crypto.binaryToHex(id));
+			summary += `Requires accepted: ${dependencies.length === 0 ? "none" : dependencies.join(", ")}\n`;
+		}
+		if (this.tx.version >= 6) {
+			summary += `Payload encoding: ${this.tx.payload_encoding === PayloadEncoding.Deflate ? "deflate" : "raw"}\n`;
+		}
+		if (this.tx.version >= 7) {
+			summary += `Sponsored: ${this.tx.sponsored === true ? "yes" : "no"}\n`;
+		}
+		if (this.tx.version === 2) {
+			const addresses = (this.tx.public_keys ?? []).map((publicKey) => new PublicKey(publicKey, true).getAddress());
+			summary += `Signers: ${this.tx.threshold} of ${addresses.join(", ")}\n`;
+		}
+		return summary + `Sign prefix: ${Crypto.binaryToHex(this.signPrefix)}\n` +
+			`Payload: ${this.tx.payload}`;
+	}
+
+	/** Serialize the envelope as json to be stored in a file. */
+	public toFile(): string {
+		const tx: { [key: string]: unknown } = {
+			version: this.tx.version,
+			transaction_id: Crypto.binaryToHex(this.tx.transaction_id),
+			contract_hash: Crypto.binaryToHex(this.tx.contract_hash),
+			valid_till: this.tx.valid_till,
+			payload: this.tx.payload
+		};
+		if (this.tx.version === 2) {
+			tx.threshold = this.tx.threshold;
+			tx.public_keys = (this.tx.public_keys ?? []).map((publicKey) => Crypto.binaryToHex(publicKey));
+		}
+		if (this.tx.version >= 3) {
+			tx.valid_from = this.tx.valid_from ?? 0;
+			tx.valid_from_block = this.tx.valid_from_block ?? 0;
+			tx.valid_till_block = this.tx.valid_till_block ?? 0;
+		}
+		if (this.tx.version >= 4) {
+			tx.sequence = this.tx.sequence ?? 0;
+		}
+		if (this.tx.version >= 5) {
+			tx.dependencies = (this.tx.dependencies ?? []).map((id) => Crypto.binaryToHex(id));
+		}
+		if (this.tx.version >= 6) {
+			tx.payload_encoding = this.tx.payload_encoding ?? PayloadEncoding.Raw;
+			if (this.tx.encoded_payload !== undefined) {
+				tx.encoded_payload = Crypto.binaryToHex(this.tx.encoded_payload);
+			}
+		}
+		if (this.tx.version >= 7) {
+			tx.sponsored = this.tx.sponsored ?? false;
+		}
+		return JSON.stringify({
+			type: TxEnvelope.fileType,
+			format: TxEnvelope.formatVersion,
+			sign_prefix: Crypto.binaryToHex(this.signPrefix),
+			transaction: tx,
+			summary: this.getSummary()
+		}, undefined, "\t");
+	}
+
+	/** Serialize the envelope as base64url, for example to transfer it with a QR code. The summary is not included. */
+	public toBase64Url(): string {
+		return Crypto.binaryToBase64Url(Buffer.concat([
+			Crypto.uInt8ToBinary(TxEnvelope.formatVersion),
+			Crypto.uInt32ToBinary(this.signPrefix.length),
+			this.signPrefix,
+			this.signData
+		]));
+	}
+
+	/**
+	 * Sign the transaction in this envelope.
+	 * @param privKey The private key to sign with.
+	 * @throws if the private key may not sign this transaction.
+	 */
+	public sign(privKey: PrivateKey): EnvelopeSignature {
+		if (this.tx.version === 2 && !(this.tx.public_keys ?? []).some((publicKey) => publicKey.equals(privKey.publicKey))) {
+			throw new Error("Private key is not one of the signers.");
+		}
+		return { public_key: privKey.publicKey, signature: privKey.sign(Buffer.concat([this.signPrefix, this.signData])) };
+	}
+
+	/**
+	 * Combine signatures created with sign() into a transaction.
+	 * @param signatures The signatures, for single signature transactions exactly one.
+	 * @throws if a signature is not valid for this envelope or there are not enough signatures.
+	 */
+	public combine(...signatures: EnvelopeSignature[]): Transaction {
+		for (const signature of signatures) {
+			if (!PublicKey.isValidPublic(signature.public_key) ||
+				!new PublicKey(signature.public_key, true).verify(Buffer.concat([this.signPrefix, this.signData]), signature.signature)) {
+				throw new Error("Signature does not match the transaction.");
+			}
+		}
+		let result: Transaction;
+		if (this.tx.version === 2) {
+			const publicKeys = this.tx.public_keys ?? [];
+			const indexed = signatures.map((signature) => ({ index: publicKeys.findIndex((key) => key.equals(signature.public_key)), signature: signature.signature }));
+			if (indexed.some((signature) => signature.index === -1)) {
+				throw new Error("Signature is not from one of the signers.");
+			}
+			indexed.sort((a, b) => a.index - b.index);
+			result = new Transaction(Object.assign({}, this.tx, {
+				signature: Buffer.concat(indexed.map((signature) => Buffer.concat([Crypto.uInt8ToBinary(signature.index), signature.signature]))),
+				public_key: Buffer.alloc(0)
+			}));
+		} else {
+			if (signatures.length !== 1) {
+				throw new Error("Transaction requires exactly one signature.");
+			}
+			result = new Transaction(Object.assign({}, this.tx, { signature: signatures[0].signature, public_key: signatures[0].public_key }));
+		}
+		if (!this.verify(result)) {
+			throw new Error("Not enough valid signatures.");
+		}
+		return result;
+	}
+
+	/**
+	 * Verify that a transaction that was signed elsewhere contains exactly the content of this envelope and is correctly signed.
+	 * The sponsor of a sponsored transaction may still have to sign it, see Transaction.sponsor().
+	 * @param transaction The signed transaction.
+	 */
+	public verify(transaction: Transaction): boolean {
+		return transaction.version === this.tx.version &&
+			transaction.data.slice(4, 4 + this.signData.length).equals(this.signData) &&
+			transaction.getEncodedPayloadBinary().length === this.getEncodedPayloadLength() &&
+			transaction.verifySignature(this.signPrefix, false);
+	}
+
+	/** Get the length of the payload as it is stored in the transaction. */
+	private getEncodedPayloadLength(): number {
+		if (this.tx.version >= 6 && this.tx.encoded_payload !== undefined) {
+			return this.tx.encoded_payload.length;
+		}
+		return Transaction.encodePayload(Crypto.utf8ToBinary(this.tx.payload), this.tx.payload_encoding ?? PayloadEncoding.Raw).length;
+	}
+}
\ No newline at end of file
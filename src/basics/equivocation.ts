@@ -0,0 +1,110 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { Block } from "./block";
+import { BlockHeader } from "./header";
+import { PublicKey } from "./key";
+import { ProcessorKeys } from "./rotation";
+
+/**
+ * Proof that the processor signed two different blocks with the same id, which can be shown to third parties.
+ * Version 2 blocks are included as header only, version 1 blocks are included completely as their signature covers all transactions.
+ */
+export class EquivocationProof {
+	/** Data consists of 4 bytes proof length, ? first block (header), ? second block (header), both including their length. */
+	public readonly data: Buffer;
+	/** Total length of this proof (excluding this field). */
+	public readonly totalLength: number;
+	/** The id of both blocks. */
+	public readonly blockId: number;
+	/** The first block (header). */
+	public readonly first: Block | BlockHeader;
+	/** The second block (header). */
+	public readonly second: Block | BlockHeader;
+
+	/**
+	 * Create a proof from its binary data.
+	 * @param data The data
+	 * @throws If the proof could not be constructed, but will not verify the signatures.
+	 */
+	constructor(data: Buffer) {
+		this.data = data;
+		this.totalLength = this.data.length - 4;
+		if (this.totalLength < 8) {
+			throw new Error("Unable to construct proof.");
+		}
+		const secondStart = 8 + Crypto.binaryToUInt32(this.data.slice(4, 8));
+		if (secondStart + 4 > this.data.length) {
+			throw new Error("Unable to construct proof.");
+		}
+		//These may throw an error as well
+		this.first = EquivocationProof.parse(this.data.slice(4, secondStart));
+		this.second = EquivocationProof.parse(this.data.slice(secondStart));
+		if (this.first.data.length !== secondStart - 4 || secondStart + this.second.data.length !== this.data.length) {
+			throw new Error("Unable to construct proof.");
+		}
+		if (this.first.id !== this.second.id) {
+			throw new Error("Blocks do not have the same id.");
+		}
+		if (this.first.data.slice(4, -64).equals(this.second.data.slice(4, -64))) {
+			throw new Error("Blocks are not different.");
+		}
+		this.blockId = this.first.id;
+	}
+
+	/**
+	 * Create a proof from two blocks (or headers) with the same id.
+	 * @param first The first block (header).
+	 * @param second The second block (header).
+	 * @throws If the blocks do not have the same id or are not different.
+	 */
+	public static create(first: Block | BlockHeader, second: Block | BlockHeader): EquivocationProof {
+		const data = Buffer.concat([EquivocationProof.toHeader(first).data, EquivocationProof.toHeader(second).data]);
+		return new EquivocationProof(Buffer.concat([Crypto.uInt32ToBinary(data.length), data]));
+	}
+
+	/**
+	 * Detect if the processor signed two different blocks with the same id, such as when receiving a block that is already known.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block.
+	 * @param first The first block (header).
+	 * @param second The second block (header).
+	 * @returns A proof if the processor signed two different blocks with the same id, undefined otherwise.
+	 */
+	public static detect(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, first: Block | BlockHeader, second: Block | BlockHeader): EquivocationProof | undefined {
+		const firstHeader = EquivocationProof.toHeader(first);
+		const secondHeader = EquivocationProof.toHeader(second);
+		if (firstHeader.id !== secondHeader.id || firstHeader.data.slice(4, -64).equals(secondHeader.data.slice(4, -64))) {
+			return undefined;
+		}
+		const proof = EquivocationProof.create(firstHeader, secondHeader);
+		return proof.verify(signPrefix, pubKey) ? proof : undefined;
+	}
+
+	/** Only the header of version 2 blocks is needed. */
+	private static toHeader(block: Block | BlockHeader): Block | BlockHeader {
+		return block instanceof Block && block.version !== 1 ? block.getHeader() : block;
+	}
+
+	/** Create a block (header) from its data, which is a header for version 2. */
+	private static parse(data: Buffer): Block | BlockHeader {
+		return Crypto.binaryToUInt8(data.slice(4, 5)) === 1 ? new Block(data.slice(0, 4 + Crypto.binaryToUInt32(data.slice(0, 4)))) :
+			new BlockHeader(data.slice(0, 4 + BlockHeader.headerLength));
+	}
+
+	/**
+	 * Verify that both blocks are signed by the processor.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block.
+	 */
+	public verify(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys): boolean {
+		const key = pubKey instanceof ProcessorKeys ? pubKey.getKey(this.blockId) : pubKey;
+		return this.first.verifySignature(signPrefix, key) && this.second.verifySignature(signPrefix, key);
+	}
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { Block } from "./block";
+import { PrivateKey, PublicKey } from "./key";
+import { ProcessorKeys } from "./rotation";
+
+/** An unsigned block header. */
+export interface UnsignedBlockHeader {
+	block_id: number;
+	previous_block_hash: Buffer;
+	processed_ts: number;
+	merkle_root: Buffer;
+	version: number;
+}
+
+/**
+ * The header of a block without its transactions, which is all a light participant needs to follow the chain.
+ * Only version 2 blocks have a header, as the signature of version 1 blocks covers all transactions.
+ * The signature and hash are the same as for the block, see Block.getHeader().
+ */
+export class BlockHeader {
+	/** The length of a block header. */
+	public static readonly headerLength = 145;
+	/** Data consists of 4 bytes header length, 1 version, 8 blockId, 32 previousBlockHash, 8 processedTs, 32 merkleRoot, 64 signature */
+	public readonly data: Buffer;
+	/** The version of the block. */
+	public readonly version: number;
+	/** Total length of this header (excluding this field). */
+	public readonly totalLength: number;
+	/** Id of the block. */
+	public readonly id: number;
+	/** Timestamp at which the block was processed (milliseconds since unix epoch) */
+	public readonly processedTs: number;
+
+	/**
+	 * Create a block header from its binary data.
+	 * @param header The data
+	 * @throws If the header could not be constructed, but will not check the correctness of the previousBlockHash or signature.
+	 */
+	constructor(header: Buffer) {
+		this.data = header;
+		this.totalLength = this.data.length - 4;
+		if (this.totalLength !== BlockHeader.headerLength) {
+			throw new Error("Unable to construct block header.");
+		}
+		this.version = Crypto.binaryToUInt8(this.data.slice(4, 5));
+		if (this.version !== 2) {
+			throw new Error("Unsupported version.");
+		}
+		this.id = Crypto.binaryToULong(this.data.slice(5, 13));
+		this.processedTs = Crypto.binaryToULong(this.data.slice(45, 53));
+		if (this.id < 0 || !Number.isSafeInteger(this.id)) {
+			throw new Error("Invalid blockId.");
+		}
+		if (this.processedTs < 0 || !Number.isSafeInteger(this.processedTs)) {
+			throw new Error("Invalid block processed timestamp");
+		}
+	}
+
+	/**
+	 * Create a signed block header from an unsigned block header.
+	 * @param header The unsigned block header
+	 * @param signPrefix The prefix to use for signing
+	 * @param privKey The private key to use for signing
+	 * @throws If a header could not be constructed, but will not verify the correctness of all values.
+	 */
+	public static sign(header: UnsignedBlockHeader, signPrefix: Buffer, privKey: PrivateKey): BlockHeader {
+		if (header.version !== 2) {
+			throw new Error("Unsupported version.");
+		}
+		if (!(header.merkle_root instanceof Buffer) || header.merkle_root.length !== 32) {
+			throw new Error("Invalid merkle root.");
+		}
+		const data = Buffer.concat([
+			Crypto.uInt8ToBinary(header.version),
+			Crypto.uLongToBinary(header.block_id),
+			header.previous_block_hash,
+			Crypto.uLongToBinary(header.processed_ts),
+			header.merkle_root
+		]);
+		return BlockHeader.create(data, privKey.sign(Buffer.concat([signPrefix, data])));
+	}
+
+	/**
+	 * Create a block header from the signed data and the signature.
+	 * @param data The signed data (everything but the signature).
+	 * @param signature The signature.
+	 * @throws If the header could not be constructed.
+	 */
+	public static create(data: Buffer, signature: Buffer): BlockHeader {
+		return new BlockHeader(Buffer.concat([Crypto.uInt32ToBinary(data.length + signature.length), data, signature]));
+	}
+
+	/**
+	 * Verify a sequence of headers: the signatures, that they follow each other and that time goes forwards.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block. Headers do not contain the
+	 * transactions, so processor keys must already contain all rotations for these headers.
+	 * @param headers The headers, in order of block id.
+	 * @param previous The block (header) before the first header, if the first header is not the first block.
+	 * @returns The amount of headers from the start that are valid, which equals the amount of headers if all are valid.
+	 */
+	public static verifyChain(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, headers: BlockHeader[], previous?: BlockHeader | Block): number {
+		for (let i = 0; i < headers.length; i++) {
+			const previousHeader = i === 0 ? previous : headers[i - 1];
+			const expectedId = previousHeader === undefined ? 0 : previousHeader.id + 1;
+			if (headers[i].id !== expectedId || !headers[i].verifySignature(signPrefix, pubKey instanceof ProcessorKeys ? pubKey.getKey(headers[i].id) : pubKey) ||
+				!headers[i].verifyWithPreviousHeader(signPrefix, previousHeader)) {
+				return i;
+			}
+		}
+		return headers.length;
+	}
+
+	/** Get the previous block hash. */
+	public getPreviousBlockHash(): Buffer {
+		return this.data.slice(13, 45);
+	}
+
+	/** Get the merkle root of the transactions in the block. */
+	public getMerkleRoot(): Buffer {
+		return this.data.slice(53, 85);
+	}
+
+	/** Get the signature of the block. */
+	public getSignature(): Buffer {
+		return this.data.slice(-64);
+	}
+
+	/**
+	 * Calculates the hash of the block, which is the same as Block.getHash().
+	 * @param signPrefix the prefix to use.
+	 */
+	public getHash(signPrefix: Buffer): Buffer {
+		return Crypto.hash256(Buffer.concat([signPrefix, this.data.slice(4, -64)]));
+	}
+
+	/**
+	 * Verify if this signature is correct.
+	 * Note that this does not verify the transactions of the block, see Block.verifySignature().
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor.
+	 */
+	public verifySignature(signPrefix: Buffer, pubKey: PublicKey): boolean {
+		try {
+			return pubKey.verify(Buffer.concat([signPrefix, this.data.slice(4, -64)]), this.getSignature());
+		} catch (error) {
+			return false;
+		}
+	}
+
+	/**
+	 * Verify that the previousBlockHash and processedTimestamp are indeed correct compared to the previous block.
+	 * @param signPrefix The prefix to use to determine the previous block hash.
+	 * @param previous The previous block (header) or undefined if this is the first block.
+	 * @throws If the previous block id is not correct.
+	 */
+	public verifyWithPreviousHeader(signPrefix: Buffer, previous: BlockHeader | Block | undefined): boolean {
+		if (previous !== undefined) {
+			if (this.id === previous.id + 1) {
+				//Verify previous block hash and make sure we go forwards in time.
+				return this.getPreviousBlockHash().equals(previous.getHash(signPrefix)) &&
+					this.processedTs > previous.processedTs;
+			} else {
+				throw new Error("Given previous block is not the previous block.");
+			}
+		} else {
+			if (this.id === 0) {
+				//Verify the previousBlockHash is indeed only zeros
+				return this.getPreviousBlockHash().equals(Buffer.alloc(32, 0));
+			} else {
+				throw new Error("Given previous block is not the previous block.");
+			}
+		}
+	}
+}
\ No newline at end of file
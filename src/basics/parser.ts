@@ -0,0 +1,169 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { Block } from "./block";
+import { Transaction } from "./transaction";
+
+/**
+ * Incrementally parse merged blocks or transactions (see Block.merge() and Transaction.merge()) from chunks of data,
+ * such as from a socket or file stream, without needing all data in memory.
+ * Data is only copied if a block or transaction is split over multiple chunks.
+ * Example: for await (const block of StreamParser.blocks().parse(fs.createReadStream(file))) { ... }
+ */
+export class StreamParser<T> {
+	/** The default maximum length of a block (excluding the length itsself). */
+	public static defaultMaxBlockLength = 100 * 1024 * 1024;
+	/** The maximum length of a transaction (excluding the length itsself): the largest payload with the most public keys and signatures. */
+	public static readonly maxTransactionLength = Transaction.maxPayloadLength + Transaction.emptyMultiSigLength + Transaction.maxSigners * (33 + 65);
+
+	private readonly create: (data: Buffer) => T;
+	private readonly minLength: number;
+	private readonly maxLength: number;
+	//Chunks that were not (fully) parsed yet.
+	private readonly chunks: Buffer[] = [];
+	private bufferedLength: number = 0;
+	//The length of the next block or transaction (including the length itsself), if it has been read already.
+	private nextLength: number | undefined;
+
+	/**
+	 * Create a new parser.
+	 * @param create Create a block or transaction from its data.
+	 * @param minLength The minimum length of a block or transaction (excluding the length itsself).
+	 * @param maxLength The maximum length of a block or transaction (excluding the length itsself).
+	 */
+	constructor(create: (data: Buffer) => T, minLength: number, maxLength: number) {
+		this.create = create;
+		this.minLength = minLength;
+		this.maxLength = maxLength;
+	}
+
+	/**
+	 * Create a parser for merged blocks.
+	 * @param maxLength The maximum length of a block (excluding the length itsself).
+	 */
+	public static blocks(maxLength: number = StreamParser.defaultMaxBlockLength): StreamParser<Block> {
+		return new StreamParser((data) => new Block(data), Block.emptyLength, maxLength);
+	}
+
+	/** Create a parser for merged transactions. */
+	public static transactions(): StreamParser<Transaction> {
+		return new StreamParser((data) => new Transaction(data), Transaction.emptyMultiSigLength, StreamParser.maxTransactionLength);
+	}
+
+	/**
+	 * Add the next chunk of data and get all blocks or transactions that are complete now.
+	 * @param chunk The next chunk of data.
+	 * @throws if the length of the next block or transaction is invalid, or it could not be constructed.
+	 */
+	public push(chunk: Buffer): T[] {
+		this.add(chunk);
+		const result: T[] = [];
+		while (this.hasNext()) {
+			result.push(this.takeNext());
+		}
+		return result;
+	}
+
+	/**
+	 * Signal that there is no more data.
+	 * @throws if the last block or transaction is incomplete.
+	 */
+	public end(): void {
+		if (this.bufferedLength !== 0) {
+			throw new Error("Length of remaining data does not match a full item.");
+		}
+	}
+
+	/**
+	 * Parse all blocks or transactions from a stream of chunks, yielding each as soon as it is complete.
+	 * @param chunks The chunks, such as a readable stream.
+	 * @throws if the data is not a valid list of blocks or transactions, after yielding everything before it.
+	 */
+	public async *parse(chunks: AsyncIterable<Buffer> | Iterable<Buffer>): AsyncGenerator<T> {
+		for await (const chunk of chunks) {
+			this.add(chunk);
+			while (this.hasNext()) {
+				yield this.takeNext();
+			}
+		}
+		this.end();
+	}
+
+	/** Add a chunk to the buffered chunks. */
+	private add(chunk: Buffer): void {
+		if (!(chunk instanceof Buffer)) {
+			throw new Error("Invalid chunk.");
+		}
+		if (chunk.length > 0) {
+			this.chunks.push(chunk);
+			this.bufferedLength += chunk.length;
+		}
+	}
+
+	/**
+	 * Whether the next block or transaction is complete.
+	 * @throws if the length of the next block or transaction is invalid.
+	 */
+	private hasNext(): boolean {
+		if (this.nextLength === undefined) {
+			if (this.bufferedLength < 4) {
+				return false;
+			}
+			const length = Crypto.binaryToUInt32(this.read(4, false));
+			//Report invalid lengths right away, instead of waiting for (possibly a lot of) data that will never be valid.
+			if (length < this.minLength) {
+				throw new Error("Length of next item is too short.");
+			}
+			if (length > this.maxLength) {
+				throw new Error("Length of next item exceeds maximum length.");
+			}
+			this.nextLength = length + 4;
+		}
+		return this.bufferedLength >= this.nextLength;
+	}
+
+	/**
+	 * Remove the next block or transaction from the buffered chunks, which must be complete.
+	 * @throws if it could not be constructed.
+	 */
+	private takeNext(): T {
+		const data = this.read(this.nextLength!, true);
+		this.nextLength = undefined;
+		return this.create(data);
+	}
+
+	/**
+	 * Get the next data, which is only copied if it is split over multiple chunks.
+	 * @param length The length to get, must not be longer than the buffered length.
+	 * @param consume Whether to remove it from the buffered chunks.
+	 */
+	private read(length: number, consume: boolean): Buffer {
+		let result: Buffer;
+		if (this.chunks[0].length >= length) {
+			result = this.chunks[0].slice(0, length);
+		} else {
+			result = Buffer.alloc(length);
+			let location = 0;
+			for (let i = 0; location < length; i++) {
+				location += this.chunks[i].copy(result, location, 0, length - location);
+			}
+		}
+		if (consume) {
+			this.bufferedLength -= length;
+			let remaining = length;
+			while (remaining > 0 && remaining >= this.chunks[0].length) {
+				remaining -= this.chunks.shift()!.length;
+			}
+			if (remaining > 0) {
+				this.chunks[0] = this.chunks[0].slice(remaining);
+			}
+		}
+		return result;
+	}
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { Merkle } from "../tools/merkle";
+import { BlockHeader } from "./header";
+import { PublicKey } from "./key";
+import { ProcessorKeys } from "./rotation";
+import { Transaction } from "./transaction";
+
+/**
+ * A proof that a transaction is part of a (version 2) block, which can be verified without the rest of the block.
+ * Create one with Block.getInclusionProof().
+ */
+export class InclusionProof {
+	/** The length of a proof without hashes or transaction. */
+	public static readonly emptyLength = 158;
+	/**
+	 * Data consists of 4 bytes proof length, 149 block header (including its length), 4 transaction index, 4 transactions amount,
+	 * 1 hashes amount, 32 per hash, ? transaction (including its length)
+	 */
+	public readonly data: Buffer;
+	/** Total length of this proof (excluding this field). */
+	public readonly totalLength: number;
+	/** The header of the block the transaction is in. */
+	public readonly header: BlockHeader;
+	/** The position of the transaction in the block. */
+	public readonly index: number;
+	/** Amount of transactions in the block. */
+	public readonly transactionsAmount: number;
+	/** The transaction that is proven to be in the block. */
+	public readonly transaction: Transaction;
+	//Where the transaction starts in the data.
+	private readonly transactionStart: number;
+
+	/**
+	 * Create a proof from its binary data.
+	 * @param data The data
+	 * @throws If the proof could not be constructed, but will not verify the proof itself.
+	 */
+	constructor(data: Buffer) {
+		this.data = data;
+		this.totalLength = this.data.length - 4;
+		if (this.totalLength < InclusionProof.emptyLength) {
+			throw new Error("Unable to construct proof.");
+		}
+		//May throw an error as well
+		this.header = new BlockHeader(this.data.slice(4, 153));
+		this.index = Crypto.binaryToUInt32(this.data.slice(153, 157));
+		this.transactionsAmount = Crypto.binaryToUInt32(this.data.slice(157, 161));
+		if (this.index >= this.transactionsAmount) {
+			throw new Error("Invalid transaction index.");
+		}
+		this.transactionStart = 162 + Crypto.binaryToUInt8(this.data.slice(161, 162)) * 32;
+		if (this.transactionStart + 4 > this.data.length) {
+			throw new Error("Unable to construct proof.");
+		}
+		//May throw an error as well
+		this.transaction = new Transaction(this.data.slice(this.transactionStart));
+	}
+
+	/**
+	 * Create a proof from its parts.
+	 * @param header The block header.
+	 * @param index The position of the transaction in the block.
+	 * @param transactionsAmount Amount of transactions in the block.
+	 * @param hashes The merkle proof, see Merkle.getProof().
+	 * @param transaction The transaction (including its length).
+	 * @throws If the proof could not be constructed.
+	 */
+	public static create(header: BlockHeader, index: number, transactionsAmount: number, hashes: Buffer[], transaction: Buffer): InclusionProof {
+		if (hashes.some((hash) => hash.length !== 32)) {
+			throw new Error("Unable to construct proof.");
+		}
+		const data = Buffer.concat([
+			header.data,
+			Crypto.uInt32ToBinary(index),
+			Crypto.uInt32ToBinary(transactionsAmount),
+			Crypto.uInt8ToBinary(hashes.length),
+			...hashes,
+			transaction
+		]);
+		return new InclusionProof(Buffer.concat([Crypto.uInt32ToBinary(data.length), data]));
+	}
+
+	/** Get the hashes that prove the transaction is part of the merkle root, see Merkle.getProof(). */
+	public getHashes(): Buffer[] {
+		const result: Buffer[] = [];
+		for (let location = 162; location < this.transactionStart; location += 32) {
+			result.push(this.data.slice(location, location + 32));
+		}
+		return result;
+	}
+
+	/**
+	 * Verify that the transaction is part of the merkle root of the block.
+	 * This does not verify that the block itself is correct, see verify().
+	 */
+	public verifyInclusion(): boolean {
+		return Merkle.verifyProof(this.header.getMerkleRoot(), Merkle.hashLeaf(this.transaction.data), this.index, this.transactionsAmount, this.getHashes());
+	}
+
+	/**
+	 * Verify that the transaction is part of the block and that the block is signed by the processor.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block.
+	 * @param header If given also verify the block header is the same as this header, such as a header from a verified chain.
+	 */
+	public verify(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, header?: BlockHeader): boolean {
+		if (header !== undefined && !this.header.data.equals(header.data)) {
+			return false;
+		}
+		return this.header.verifySignature(signPrefix, pubKey instanceof ProcessorKeys ? pubKey.getKey(this.header.id) : pubKey) && this.verifyInclusion();
+	}
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "../tools/crypto";
+import { RotateKeyPayload, Template } from "./basic";
+import { Block } from "./block";
+import { PublicKey } from "./key";
+
+/**
+ * Which processor key signs which blocks. The processor can replace its key with a transaction for the special rotate key contract,
+ * signed by the current processor key, which names the next processor key and from what block id onwards it is used.
+ */
+export class ProcessorKeys {
+	/** The special contract to rotate the processor key. */
+	public static readonly rotateKeyContractHash: Buffer = Buffer.alloc(32, 254);
+	/** The template of the rotate key contract. */
+	public static readonly rotateKeyTemplate: Template & { [P in keyof RotateKeyPayload]: { type: string } } = {
+		publicKey: { type: "hex" },
+		fromBlock: { type: "uint" }
+	};
+
+	//All keys ordered by the block from which they are used.
+	private readonly keys: Array<{ fromBlock: number, key: PublicKey }>;
+
+	/**
+	 * Create a new key schedule.
+	 * @param initialKey The key of the processor for the first block.
+	 */
+	constructor(initialKey: PublicKey) {
+		this.keys = [{ fromBlock: 0, key: initialKey }];
+	}
+
+	/**
+	 * Create the key schedule from the rotations that were stored in the database (basics.processor_keys).
+	 * @param initialKey The key of the processor for the first block.
+	 * @param rows The stored rotations.
+	 * @throws If a row does not contain a valid block id or public key.
+	 */
+	public static fromRows(initialKey: PublicKey, rows: Array<{ from_block: number, public_key: Buffer }>): ProcessorKeys {
+		const result = new ProcessorKeys(initialKey);
+		for (const row of rows) {
+			result.addKey(row.from_block, new PublicKey(row.public_key));
+		}
+		return result;
+	}
+
+	/**
+	 * Check if rotating the processor key is allowed.
+	 * @param payload The payload of the rotate key transaction, which must match the template.
+	 * @param from Who signed the transaction.
+	 * @param processorAddress The address of the processor of the block the transaction is in.
+	 * @param currentBlockId The id of the block the transaction is in.
+	 * @returns An error string if it is not allowed or undefined if it is allowed.
+	 */
+	public static getRejectReason(payload: RotateKeyPayload, from: string | string[], processorAddress: string, currentBlockId: number): string | undefined {
+		//Multi-signature transactions are never from the processor.
+		if (from !== processorAddress) {
+			return "User is not allowed to rotate the processor key.";
+		}
+		if (!Crypto.isHex(payload.publicKey) || !PublicKey.isValidPublic(Crypto.hexToBinary(payload.publicKey))) {
+			return "Invalid public key.";
+		}
+		if (!Number.isSafeInteger(payload.fromBlock) || payload.fromBlock <= currentBlockId) {
+			return "Processor key can only be rotated for future blocks.";
+		}
+		return undefined;
+	}
+
+	/**
+	 * Use a key from a block onwards, such as a rotation that is already known.
+	 * @param fromBlock The id of the first block to use the key for.
+	 * @param key The key.
+	 */
+	public addKey(fromBlock: number, key: PublicKey): void {
+		if (!Number.isSafeInteger(fromBlock) || fromBlock < 0) {
+			throw new Error("Invalid block id.");
+		}
+		let i = this.keys.length;
+		while (this.keys[i - 1].fromBlock > fromBlock) {
+			i--;
+		}
+		if (this.keys[i - 1].fromBlock === fromBlock) {
+			this.keys[i - 1].key = key;
+		} else {
+			this.keys.splice(i, 0, { fromBlock, key });
+		}
+	}
+
+	/**
+	 * Get the key of the processor for a block.
+	 * @param blockId The id of the block.
+	 */
+	public getKey(blockId: number): PublicKey {
+		let i = this.keys.length - 1;
+		while (this.keys[i].fromBlock > blockId) {
+			i--;
+		}
+		return this.keys[i].key;
+	}
+
+	/**
+	 * Use all key rotations in a block for later blocks. Blocks should be processed in order and after verifying them.
+	 * @param signPrefix The prefix used for signing transactions.
+	 * @param block The block.
+	 * @throws If a transaction in the block could not be constructed.
+	 */
+	public processBlock(signPrefix: Buffer, block: Block): void {
+		const processorAddress = this.getKey(block.id).getAddress();
+		for (const transaction of block.iterateTransactions()) {
+			if (transaction.getContractHash().equals(ProcessorKeys.rotateKeyContractHash) && transaction.version !== 2 &&
+				transaction.verifySignature(signPrefix) && transaction.verifyTemplate(ProcessorKeys.rotateKeyTemplate, 2) === undefined) {
+
+				const payload = transaction.getPayloadJson() as RotateKeyPayload;
+				if (ProcessorKeys.getRejectReason(payload, transaction.getAddress(), processorAddress, block.id) === undefined) {
+					this.addKey(payload.fromBlock, new PublicKey(Crypto.hexToBinary(payload.publicKey)));
+				}
+			}
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,319 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Template, TemplateEntry, ContractVersion } from "./basic";
+import { Transaction } from "./transaction";
+
+/** The subset of JSON Schema (draft 2020-12) that templates are converted to and from. */
+export interface JsonSchema {
+	$schema?: string;
+	type?: "boolean" | "integer" | "number" | "string" | "array" | "object";
+	title?: string;
+	description?: string;
+	properties?: { [key: string]: JsonSchema };
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema | false;
+	prefixItems?: JsonSchema[];
+	minItems?: number;
+	maxItems?: number;
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	format?: string;
+	contentMediaType?: string;
+	enum?: Array<string | number | boolean>;
+	allOf?: JsonSchema[];
+}
+
+/**
+ * Convert contract templates to JSON Schema (draft 2020-12) and back again.
+ * Not everything can be expressed in JSON Schema (such as address checksums), so schemas may accept slightly more than templates do.
+ */
+export class Schema {
+	/** The JSON Schema version that is used. */
+	public static readonly draft = "https://json-schema.org/draft/2020-12/schema";
+	//Patterns for string based types, which are also used to recognize these types when converting back.
+	private static readonly patterns: { [type: string]: string } = {
+		addr: "^[1-9A-HJ-NP-Za-km-z]{25,35}$",
+		hex: "^(?:[0-9A-Fa-f]{2})*$",
+		hash: "^[0-9A-Fa-f]{64}$",
+		base64: "^(?:[+/0-9A-Za-z]{4})*(?:[+/0-9A-Za-z]{2}==|[+/0-9A-Za-z]{3}=)?$",
+		id: "^[0-9A-Fa-f]{32}$",
+		bigint: "^-?(?:0|[1-9][0-9]*)$",
+		decimal: "^-?(?:0|[1-9][0-9]*)(?:\\.[0-9]+)?$"
+	};
+	//Formats for string based types (version 3 and later).
+	private static readonly formats: { [type: string]: string } = {
+		timestamp: "date-time",
+		uuid: "uuid",
+		url: "uri",
+		email: "email"
+	};
+
+	/**
+	 * Convert a template to a JSON Schema for the payload.
+	 * @param template The template to convert.
+	 * @param version The version of the contract the template is for, as types differ per version.
+	 */
+	public static fromTemplate(template: Template, version: ContractVersion): JsonSchema {
+		return Object.assign({ $schema: Schema.draft }, Schema.objectFromTemplate(template, version));
+	}
+
+	/**
+	 * Convert a JSON Schema back into a template, only the subset that fromTemplate() creates is supported.
+	 * @param schema The schema to convert, which must be an object.
+	 * @param version The version of the contract the template is for, as types differ per version.
+	 * @throws If the schema cannot be expressed as a template for this version.
+	 */
+	public static toTemplate(schema: JsonSchema, version: ContractVersion): Template {
+		if (schema.type !== "object" || schema.properties === undefined) {
+			throw new Error("Schema must be an object with properties.");
+		}
+		return Schema.objectToTemplate(schema, version, "");
+	}
+
+	/** Convert a (nested) template to an object schema. */
+	private static objectFromTemplate(template: Template, version: ContractVersion): JsonSchema {
+		const properties: { [key: string]: JsonSchema } = {};
+		const required: string[] = [];
+		for (const key of Object.keys(template)) {
+			const entry = template[key];
+			let schema: JsonSchema;
+			if (entry.type.endsWith("Array")) {
+				schema = { type: "array", items: Schema.valueFromTemplate(entry.type.slice(0, -5), entry, version) };
+				if (entry.maxItems !== undefined) {
+					schema.maxItems = entry.maxItems;
+				}
+				required.push(key);
+			} else if (entry.type.endsWith("?") && version !== 1) {
+				schema = Schema.valueFromTemplate(entry.type.slice(0, -1), entry, version);
+			} else {
+				schema = Schema.valueFromTemplate(entry.type, entry, version);
+				required.push(key);
+			}
+			if (entry.name !== undefined) {
+				schema.title = entry.name;
+			}
+			if (entry.desc !== undefined) {
+				schema.description = entry.desc;
+			}
+			properties[key] = schema;
+		}
+		return { type: "object", properties, required, additionalProperties: false };
+	}
+
+	/** Convert a type (without array or optional suffix) and the constraints of a template entry to a schema. */
+	private static valueFromTemplate(type: string, entry: TemplateEntry, version: ContractVersion): JsonSchema {
+		//Types that were added in version 3 are treated as strings by older versions.
+		if (version < 3 && Transaction.typesV3.indexOf(type) !== -1) {
+			type = "str";
+		}
+
+		let schema: JsonSchema;
+		switch (type) {
+			case "bool":
+				schema = { type: "boolean" };
+				break;
+			case "int":
+				schema = { type: "integer", minimum: -Number.MAX_SAFE_INTEGER, maximum: Number.MAX_SAFE_INTEGER };
+				break;
+			case "uint":
+				schema = { type: "integer", minimum: 0, maximum: Number.MAX_SAFE_INTEGER };
+				break;
+			case "float":
+				schema = { type: "number" };
+				break;
+			case "json":
+				//Version 1 expects json encoded as string, later versions accept any json value.
+				schema = version === 1 ? { type: "string", contentMediaType: "application/json" } : {};
+				break;
+			case "id":
+				schema = version === 1 ? { type: "string" } : { type: "string", pattern: Schema.patterns.id };
+				break;
+			case "decimal":
+				//A scale of 0 has its own pattern, which accepts the same values as bigint, so it can be imported as decimal again.
+				schema = { type: "string", pattern: entry.scale === undefined ? Schema.patterns.decimal : entry.scale === 0 ? "^-?(?:0|[1-9][0-9]*)(?!\\.)$" :
+					`^-?(?:0|[1-9][0-9]*)(?:\\.[0-9]{1,${entry.scale}})?$` };
+				break;
+			case "obj":
+				schema = Schema.objectFromTemplate(entry.template ?? {}, version);
+				break;
+			case "tuple":
+				const items = entry.items ?? [];
+				schema = {
+					type: "array",
+					prefixItems: items.map((item) => Schema.objectFromTemplate({ item }, version).properties!.item),
+					items: false,
+					minItems: items.length
+				};
+				break;
+			default:
+				if (Schema.patterns[type] !== undefined) {
+					schema = { type: "string", pattern: Schema.patterns[type] };
+				} else if (Schema.formats[type] !== undefined) {
+					schema = { type: "string", format: Schema.formats[type] };
+				} else {
+					//It is a string or any other type, which will be treated as such.
+					schema = { type: "string" };
+				}
+		}
+
+		if (entry.minimum !== undefined) {
+			schema.minimum = Math.max(entry.minimum, schema.minimum ?? -Infinity);
+		}
+		if (entry.maximum !== undefined) {
+			schema.maximum = Math.min(entry.maximum, schema.maximum ?? Infinity);
+		}
+		if (entry.minLength !== undefined) {
+			schema.minLength = entry.minLength;
+		}
+		if (entry.maxLength !== undefined) {
+			schema.maxLength = entry.maxLength;
+		}
+		if (entry.pattern !== undefined) {
+			//If the type already has a pattern both must match.
+			if (schema.pattern === undefined) {
+				schema.pattern = entry.pattern;
+			} else {
+				schema.allOf = [{ pattern: entry.pattern }];
+			}
+		}
+		if (entry.enum !== undefined) {
+			schema.enum = entry.enum;
+		}
+		return schema;
+	}
+
+	/** Convert an object schema to a (nested) template. */
+	private static objectToTemplate(schema: JsonSchema, version: ContractVersion, path: string): Template {
+		const template: Template = {};
+		const required = schema.required ?? [];
+		for (const key of Object.keys(schema.properties ?? {})) {
+			const property = schema.properties![key];
+			let entry: TemplateEntry;
+			if (property.type === "array" && property.prefixItems === undefined) {
+				if (property.items === undefined || property.items === false) {
+					throw new Error(`Unsupported schema: array without items: ${path}${key}`);
+				}
+				entry = Schema.valueToTemplate(property.items, version, `${path}${key}`);
+				if (entry.type.endsWith("Array")) {
+					throw new Error(`Unsupported schema: nested arrays: ${path}${key}`);
+				}
+				entry.type += "Array";
+				if (property.maxItems !== undefined) {
+					entry.maxItems = property.maxItems;
+				}
+			} else {
+				entry = Schema.valueToTemplate(property, version, `${path}${key}`);
+			}
+			if (required.indexOf(key) === -1) {
+				if (version === 1 || entry.type.endsWith("Array")) {
+					throw new Error(`Unsupported schema: optional key: ${path}${key}`);
+				}
+				entry.type += "?";
+			}
+			if (property.title !== undefined) {
+				entry.name = property.title;
+			}
+			if (property.description !== undefined) {
+				entry.desc = property.description;
+			}
+			template[key] = entry;
+		}
+		return template;
+	}
+
+	/** Convert a schema of a single value to a template entry. */
+	private static valueToTemplate(schema: JsonSchema, version: ContractVersion, path: string): TemplateEntry {
+		const entry: TemplateEntry = { type: "str" };
+		let pattern = schema.pattern;
+		switch (schema.type) {
+			case "boolean":
+				entry.type = "bool";
+				break;
+			case "integer":
+				entry.type = schema.minimum !== undefined && schema.minimum >= 0 ? "uint" : "int";
+				if (schema.minimum !== undefined && schema.minimum !== 0 && schema.minimum !== -Number.MAX_SAFE_INTEGER) {
+					entry.minimum = schema.minimum;
+				}
+				if (schema.maximum !== undefined && schema.maximum !== Number.MAX_SAFE_INTEGER) {
+					entry.maximum = schema.maximum;
+				}
+				break;
+			case "number":
+				entry.type = "float";
+				if (schema.minimum !== undefined) {
+					entry.minimum = schema.minimum;
+				}
+				if (schema.maximum !== undefined) {
+					entry.maximum = schema.maximum;
+				}
+				break;
+			case "object":
+				if (version < 3) {
+					throw new Error(`Unsupported schema: object for version ${version}: ${path}`);
+				}
+				entry.type = "obj";
+				entry.template = Schema.objectToTemplate(schema, version, `${path}.`);
+				break;
+			case "array":
+				if (version < 3 || schema.prefixItems === undefined || schema.items !== false) {
+					throw new Error(`Unsupported schema: array: ${path}`);
+				}
+				entry.type = "tuple";
+				entry.items = schema.prefixItems.map((item, i) => Schema.objectToTemplate({ properties: { item }, required: ["item"] }, version, `${path}[${i}]`).item);
+				break;
+			case "string":
+				const scale = /^\^-\?\(\?:0\|\[1-9\]\[0-9\]\*\)(?:\(\?:\\\.\[0-9\]\{1,([0-9]+)\}\)\?|\(\?!\\\.\))\$$/.exec(pattern ?? "");
+				const patternType = Object.keys(Schema.patterns).find((type) => Schema.patterns[type] === pattern);
+				const formatType = Object.keys(Schema.formats).find((type) => Schema.formats[type] === schema.format);
+				if (version === 1 && schema.contentMediaType === "application/json") {
+					entry.type = "json";
+				} else if (scale !== null && version >= 3) {
+					entry.type = "decimal";
+					entry.scale = scale[1] === undefined ? 0 : Number.parseInt(scale[1], 10);
+					pattern = undefined;
+				} else if (patternType !== undefined && (version >= 3 || Transaction.typesV3.indexOf(patternType) === -1) && (version !== 1 || patternType !== "id")) {
+					entry.type = patternType;
+					pattern = undefined;
+				} else if (formatType !== undefined && version >= 3) {
+					entry.type = formatType;
+				}
+				if (schema.minLength !== undefined) {
+					entry.minLength = schema.minLength;
+				}
+				if (schema.maxLength !== undefined) {
+					entry.maxLength = schema.maxLength;
+				}
+				//A pattern on top of the pattern of the type.
+				if (schema.allOf !== undefined && schema.allOf.length === 1 && schema.allOf[0].pattern !== undefined && pattern === undefined) {
+					pattern = schema.allOf[0].pattern;
+				}
+				if (pattern !== undefined) {
+					entry.pattern = pattern;
+				}
+				break;
+			case undefined:
+				//Any value is only supported as json type.
+				if (version === 1) {
+					throw new Error(`Unsupported schema: any value for version 1: ${path}`);
+				}
+				entry.type = "json";
+				break;
+			default:
+				throw new Error(`Unsupported schema: type ${schema.type}: ${path}`);
+		}
+		if (schema.enum !== undefined) {
+			entry.enum = schema.enum;
+		}
+		return entry;
+	}
+}
\ No newline at end of file
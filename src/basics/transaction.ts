@@ -7,10 +7,18 @@
  */
 
 import { Crypto } from "../tools/crypto";
-import { Template } from "./basic";
+import { Inflate } from "../tools/inflate";
+import { Template, TemplateEntry, ContractVersion } from "./basic";
 import { randomBytes } from "crypto";
+import { deflateRawSync } from "zlib";
 import { PublicKey, PrivateKey } from "./key";
 
+/** How the payload is stored inside a transaction. */
+export enum PayloadEncoding {
+	Raw = 0,
+	Deflate = 1 //Raw deflate (RFC 1951) compressed
+}
+
 /** An unsigned transaction. */
 export interface UnsignedTx {
 	version: number;
@@ -18,21 +26,146 @@ export interface UnsignedTx {
 	contract_hash: Buffer;
 	valid_till: number;
 	payload: string;
+	/** The amount of signatures required, only for multi-signature (version 2) transactions. */
+	threshold?: number;
+	/** The public keys that may sign, only for multi-signature (version 2) transactions. */
+	public_keys?: Buffer[];
+	/** From what previousBlockTimestamp onwards it is valid, only for version 3 and later, 0 or undefined = always. */
+	valid_from?: number;
+	/** From what block id onwards it is valid, only for version 3 and later, 0 or undefined = always. */
+	valid_from_block?: number;
+	/** Until and including what block id it is valid, only for version 3 and later, 0 or undefined = no expiration. */
+	valid_till_block?: number;
+	/** The sequence number of the sender, only for version 4 and later, 0 or undefined = not used. */
+	sequence?: number;
+	/** Ids of transactions that must be accepted first, only for version 5 and later. */
+	dependencies?: Buffer[];
+	/** How the payload is stored, only for version 6 and later, undefined = raw. The payload itsself is never encoded. */
+	payload_encoding?: PayloadEncoding;
+	/**
+	 * The payload as it is stored, only for encoded payloads, undefined = encode the payload.
+	 * Compression may differ between zlib versions and implementations, so it must be kept to reconstruct a signed transaction.
+	 * If given it is used as-is and the payload is not encoded again.
+	 */
+	encoded_payload?: Buffer;
+	/** Whether it must also be signed by a sponsor, only for version 7 and later, undefined = not sponsored. */
+	sponsored?: boolean;
 }
 
-/** Transaction as found in the database. Note that the json payload should be selected as text to ensure all whitespace is preserved. */
+/**
+ * Transaction as found in the database. Note that the json payload should be selected as text to ensure all whitespace is preserved.
+ * For encoded payloads (version 6 and later) also store the encoded payload (see getEncodedPayloadBinary()).
+ * For multi-signature (version 2) transactions the signature consists of all signatures, each prefixed with 1 byte for
+ * the index of the public key that created it (see getSignatureData()), and the public key is not used, so store an empty buffer.
+ * As sender of a multi-signature transaction store the address of the first signer (getSignerAddresses()[0]).
+ */
 export interface DBTransaction extends UnsignedTx {
 	signature: Buffer;
 	public_key: Buffer;
+	/** The signature and public key of the sponsor, only for sponsored transactions, undefined = not signed by the sponsor yet. */
+	sponsor_signature?: Buffer;
+	sponsor_public_key?: Buffer;
+}
+
+/** A signature of a multi-signature transaction. */
+export interface TxSignature {
+	/** Index of the public key that created this signature. */
+	index: number;
+	/** The signature, consists of 32 bytes r, followed by 32 bytes s. */
+	signature: Buffer;
+}
+
+/** A reason why a payload is not valid for a template. */
+export interface TemplateViolation {
+	/** Path to the invalid value, e.g. items[3].amount, or an empty string for the payload itsself. */
+	path: string;
+	/** The type or constraint that was expected. */
+	expected: string;
+	/** What kind of value was found: undefined, null, boolean, number, string, array or object. */
+	actual: string;
+	/** The error message, the same as verifyTemplate() returns for the first violation. */
+	message: string;
+}
+
+/**
+ * Canonical human-readable representation of a transaction, which converts back to exactly the same binary data.
+ * All binary values are lower case hex. The addresses are derived from the public keys and are only informative.
+ */
+export interface JSONTransaction {
+	version: number;
+	transaction_id: string;
+	contract_hash: string;
+	valid_till: number;
+	/** The parsed payload, only present for raw payloads if serializing it again gives exactly the same payload. */
+	payload?: object;
+	/** The payload as hex (encoded if it is not raw), only present if payload is not. */
+	payload_hex?: string;
+	/** Address of the signer, only for single signature transactions. */
+	from?: string;
+	/** Public key of the signer, only for single signature transactions. */
+	public_key?: string;
+	/** Signature, only for single signature transactions. */
+	signature?: string;
+	/** Validity window, only for version 3 and later. */
+	valid_from?: number;
+	valid_from_block?: number;
+	valid_till_block?: number;
+	/** Sequence number of the sender, only for version 4 and later. */
+	sequence?: number;
+	/** Ids of transactions that must be accepted first, only for version 5 and later. */
+	dependencies?: string[];
+	/** How the payload is stored, only for version 6 and later. The payload_hex is the stored (encoded) payload. */
+	payload_encoding?: PayloadEncoding;
+	/** Whether it must also be signed by a sponsor, only for version 7 and later. */
+	sponsored?: boolean;
+	/** Address, public key and signature of the sponsor, only for sponsored transactions. Only zeros if not signed by the sponsor yet. */
+	sponsor?: string;
+	sponsor_public_key?: string;
+	sponsor_signature?: string;
+	/** The amount of signatures required, only for multi-signature transactions. */
+	threshold?: number;
+	/** The public keys that may sign, only for multi-signature transactions. */
+	public_keys?: string[];
+	/** The signatures with the index of the public key and address that created it, only for multi-signature transactions. */
+	signatures?: Array<{ index: number; from: string; signature: string }>;
 }
 
 /** A class representing a transaction. */
 export class Transaction {
-	/** This is the maximum length a transaction payload may be to be considered valid. */
+	/** This is the maximum length a transaction payload may be to be considered valid, as stored in the transaction. */
 	public static readonly maxPayloadLength = 100000;
+	/** This is the maximum length an encoded transaction payload may be once decoded. */
+	public static readonly maxDecodedPayloadLength = 1000000;
 	/** The length of a transaction with an empty payload. */
 	public static readonly emptyLength = 154;
-	/** Data consists of 4 bytes totalLength, 1 version, 16 transactionId, 32 contractHash, 8 validtill, ? payload, (64 signature, 33 publickey) */
+	/** The length of a multi-signature transaction with an empty payload, no public keys and no signatures. */
+	public static readonly emptyMultiSigLength = 60;
+	/** The maximum amount of public keys a multi-signature transaction may have. */
+	public static readonly maxSigners = 16;
+	/** The maximum amount of transactions a transaction may depend on. */
+	public static readonly maxDependencies = 16;
+	/** The latest supported version. */
+	public static readonly maxVersion = 7;
+	/** Template types that only exist since contract version 3. */
+	public static readonly typesV3 = ["obj", "tuple", "bigint", "decimal", "timestamp", "uuid", "url", "email"];
+	//Regular expressions for template types, these do not depend on the node.js version to ensure they are deterministic.
+	private static readonly bigintRegex = /^-?(?:0|[1-9][0-9]*)$/;
+	private static readonly decimalRegex = /^-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?$/;
+	private static readonly timestampRegex = /^([0-9]{4})-([0-9]{2})-([0-9]{2})T([0-9]{2}):([0-9]{2}):([0-9]{2})(?:\.[0-9]{1,9})?(?:Z|[+-]([0-9]{2}):([0-9]{2}))$/;
+	private static readonly uuidRegex = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+	private static readonly urlRegex = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/[!-.0-~]+(?:\/[!-~]*)?$/;
+	private static readonly emailRegex = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+	/**
+	 * Data consists of 4 bytes totalLength, 1 version, 16 transactionId, 32 contractHash, 8 validtill, ? payload, (64 signature, 33 publickey)
+	 * For multi-signature transactions it consists of 4 bytes totalLength, 1 version, 16 transactionId, 32 contractHash, 8 validtill,
+	 * 1 threshold, 1 publicKeysAmount, 33 per publicKey, ? payload, (1 publicKeyIndex, 64 signature per signature, 1 signaturesAmount)
+	 * Version 3 and later are single signature transactions with after validtill: 8 validFrom, 8 validFromBlock, 8 validTillBlock
+	 * Version 4 and later add after that: 8 sequence
+	 * Version 5 and later add after that: 1 dependenciesAmount, 16 per dependency
+	 * Version 6 and later add after that: 1 payloadEncoding
+	 * Version 7 and later add after that: 1 sponsored, sponsored transactions end with: (64 sponsorSignature, 33 sponsorPublicKey)
+	 * The sponsor signs everything before its signature, which is only zeros until the sponsor signed.
+	 */
 	public readonly data: Buffer;
 	/** The version of the transaction. */
 	public readonly version: number;
@@ -43,10 +176,29 @@ export class Transaction {
 	public readonly validTill: number;
 	/** Total length of the transaction (excluding this field itsself). */
 	public readonly totalLength: number;
-	/** Total length of the payload in the transaction. */
+	/** Total length of the payload in the transaction, which is the encoded length for encoded payloads. */
 	public readonly payloadLength: number;
+	/** The amount of valid signatures needed for this transaction to be valid, always 1 for single signature transactions. */
+	public readonly threshold: number;
+	/** From what previousBlockTimestamp onwards this transaction is valid. (Milliseconds since unix epoch.) 0 = always. */
+	public readonly validFrom: number = 0;
+	/** From what block id onwards this transaction is valid, 0 = always. */
+	public readonly validFromBlock: number = 0;
+	/** Until and including what block id this transaction is valid, 0 = no expiration. */
+	public readonly validTillBlock: number = 0;
+	/** The sequence number of the sender, every next transaction of the sender must use the next number. 0 = not used. */
+	public readonly sequence: number = 0;
+	/** How the payload is stored in this transaction. */
+	public readonly payloadEncoding: PayloadEncoding = PayloadEncoding.Raw;
+	/** Whether this transaction must also be signed by a sponsor. */
+	public readonly sponsored: boolean = false;
+
+	//Where the payload starts and ends, everything before the end is signed.
+	private readonly payloadStart: number;
+	private readonly payloadEnd: number;
 
 	//We cache the payload as it may be needed more often.
+	private decodedPayload: Buffer | undefined;
 	private verifiedPayload: boolean = false;
 	private payload: { [key: string]: unknown } | undefined;
 
@@ -61,22 +213,34 @@ export class Transaction {
 			this.version = Crypto.binaryToUInt8(this.data.slice(4, 5));
 			this.validTill = Crypto.binaryToULong(this.data.slice(53, 61));
 		} else {
-			const binaryPayload = Crypto.utf8ToBinary(transaction.payload);
+			const toSign = Transaction.getSignData(transaction);
 			this.version = transaction.version;
 			this.validTill = transaction.valid_till;
-			this.data = Buffer.concat([
-				Crypto.uInt32ToBinary(binaryPayload.length + Transaction.emptyLength),
-				Crypto.uInt8ToBinary(transaction.version), //This will throw an error if version <0 or >255
-				transaction.transaction_id,
-				transaction.contract_hash,
-				Crypto.uLongToBinary(transaction.valid_till),
-				binaryPayload,
-				transaction.signature,
-				transaction.public_key
-			]);
+			if (transaction.version === 2) {
+				if (transaction.signature.length % 65 !== 0) {
+					throw new Error("Invalid signatures.");
+				}
+				this.data = Buffer.concat([
+					Crypto.uInt32ToBinary(toSign.length + transaction.signature.length + 1),
+					toSign,
+					transaction.signature,
+					Crypto.uInt8ToBinary(transaction.signature.length / 65)
+				]);
+			} else {
+				const sponsor = transaction.version >= 7 && transaction.sponsored === true ?
+					[transaction.sponsor_signature ?? Buffer.alloc(64), transaction.sponsor_public_key ?? Buffer.alloc(33)] : [];
+				this.data = Buffer.concat([
+					Crypto.uInt32ToBinary(toSign.length + transaction.signature.length + transaction.public_key.length +
+						sponsor.reduce((length, value) => length + value.length, 0)),
+					toSign,
+					transaction.signature,
+					transaction.public_key,
+					...sponsor
+				]);
+			}
 		}
 
-		if (this.version !== 1) {
+		if (!Number.isInteger(this.version) || this.version < 1 || this.version > Transaction.maxVersion) {
 			throw new Error("Unsupported version.");
 		}
 		if (this.validTill < 0 || !Number.isSafeInteger(this.validTill)) {
@@ -84,16 +248,98 @@ export class Transaction {
 		}
 
 		this.totalLength = this.data.length - 4;
-		this.payloadLength = this.totalLength - Transaction.emptyLength;
 
-		if (this.totalLength < Transaction.emptyLength) {
-			throw new Error("Unable to construct transaction.");
+		if (this.version !== 2) {
+			this.payloadStart = Transaction.getHeaderLength(this.version);
+			if (this.version >= 5 && this.data.length >= this.payloadStart) {
+				const dependenciesAmount = Crypto.binaryToUInt8(this.data.slice(93, 94));
+				if (dependenciesAmount > Transaction.maxDependencies) {
+					throw new Error("Too many dependencies.");
+				}
+				this.payloadStart += dependenciesAmount * 16;
+			}
+			if (this.version >= 7 && this.data.length >= this.payloadStart) {
+				const sponsored = Crypto.binaryToUInt8(this.data.slice(this.payloadStart - 1, this.payloadStart));
+				if (sponsored > 1) {
+					throw new Error("Invalid sponsored.");
+				}
+				this.sponsored = sponsored === 1;
+			}
+			const signaturesLength = this.sponsored ? 194 : 97;
+			if (this.totalLength < Transaction.emptyLength + this.payloadStart - 61 + signaturesLength - 97) {
+				throw new Error("Unable to construct transaction.");
+			}
+			this.threshold = 1;
+			this.payloadEnd = this.data.length - signaturesLength;
+			if (this.version >= 3) {
+				this.validFrom = Crypto.binaryToULong(this.data.slice(61, 69));
+				this.validFromBlock = Crypto.binaryToULong(this.data.slice(69, 77));
+				this.validTillBlock = Crypto.binaryToULong(this.data.slice(77, 85));
+				if (!Number.isSafeInteger(this.validFrom) || !Number.isSafeInteger(this.validFromBlock) || !Number.isSafeInteger(this.validTillBlock)) {
+					throw new Error("Invalid validity window.");
+				}
+			}
+			if (this.version >= 4) {
+				this.sequence = Crypto.binaryToULong(this.data.slice(85, 93));
+				if (!Number.isSafeInteger(this.sequence)) {
+					throw new Error("Invalid sequence number.");
+				}
+			}
+			if (this.version >= 6) {
+				const encodingStart = this.payloadStart - (this.version >= 7 ? 2 : 1);
+				this.payloadEncoding = Crypto.binaryToUInt8(this.data.slice(encodingStart, encodingStart + 1));
+				if (this.payloadEncoding !== PayloadEncoding.Raw && this.payloadEncoding !== PayloadEncoding.Deflate) {
+					throw new Error("Unsupported payload encoding.");
+				}
+			}
+		} else {
+			if (this.totalLength < Transaction.emptyMultiSigLength) {
+				throw new Error("Unable to construct transaction.");
+			}
+			this.threshold = Crypto.binaryToUInt8(this.data.slice(61, 62));
+			const publicKeysAmount = Crypto.binaryToUInt8(this.data.slice(62, 63));
+			if (this.threshold < 1 || this.threshold > publicKeysAmount || publicKeysAmount > Transaction.maxSigners) {
+				throw new Error("Invalid threshold or amount of public keys.");
+			}
+			this.payloadStart = 63 + publicKeysAmount * 33;
+			this.payloadEnd = this.data.length - 1 - Crypto.binaryToUInt8(this.data.slice(-1)) * 65;
+			if (this.payloadEnd < this.payloadStart) {
+				throw new Error("Unable to construct transaction.");
+			}
 		}
+
+		this.payloadLength = this.payloadEnd - this.payloadStart;
 		if (this.payloadLength > Transaction.maxPayloadLength) {
 			throw new Error("Payload too large.");
 		}
-		if (!PublicKey.isValidPublic(this.getPublicKeyBuffer())) {
-			throw new Error("Invalid public key.");
+
+		if (this.version !== 2) {
+			if (!PublicKey.isValidPublic(this.getPublicKeyBuffer())) {
+				throw new Error("Invalid public key.");
+			}
+			if (this.sponsored && !Transaction.isZero(this.data.slice(-97)) && !PublicKey.isValidPublic(this.getSponsorPublicKeyBuffer())) {
+				throw new Error("Invalid sponsor public key.");
+			}
+		} else {
+			const publicKeys = this.getPublicKeys();
+			for (let i = 0; i < publicKeys.length; i++) {
+				if (!PublicKey.isValidPublic(publicKeys[i])) {
+					throw new Error("Invalid public key.");
+				}
+				for (let j = 0; j < i; j++) {
+					if (publicKeys[i].equals(publicKeys[j])) {
+						throw new Error("Duplicate public key.");
+					}
+				}
+			}
+			//Indexes must be strictly increasing, so every public key signs at most once.
+			let previousIndex = -1;
+			for (const signature of this.getSignatures()) {
+				if (signature.index <= previousIndex || signature.index >= publicKeys.length) {
+					throw new Error("Invalid signature index.");
+				}
+				previousIndex = signature.index;
+			}
 		}
 	}
 
@@ -136,26 +382,75 @@ export class Transaction {
 
 	/**
 	 * Create a signed transaction from an unsigned transaction.
-	 * @param tx The unsigned transaction
+	 * Multi-signature transactions can be signed incrementally by passing the partially signed transaction again.
+	 * @param tx The unsigned transaction or a partially signed multi-signature transaction
 	 * @param signPrefix The prefix to use for signing
 	 * @param privKey The private key to use for signing
 	 * @throws if a transaction could not be constructed, but will not verify the correctness of all values.
 	 */
-	public static sign(tx: Buffer | UnsignedTx, signPrefix: Buffer, privKey: PrivateKey): Transaction {
-		const toSign = tx instanceof Buffer ? tx.slice(4) : Buffer.concat([
-			Crypto.uInt8ToBinary(tx.version),
-			tx.transaction_id,
-			tx.contract_hash,
-			Crypto.uLongToBinary(tx.valid_till),
-			Crypto.utf8ToBinary(tx.payload)
-		]);
+	public static sign(tx: Buffer | UnsignedTx | Transaction, signPrefix: Buffer, privKey: PrivateKey): Transaction {
+		if (tx instanceof Transaction) {
+			if (tx.version !== 2) {
+				throw new Error("Only multi-signature transactions can be signed again.");
+			}
+			const index = tx.getPublicKeys().findIndex((publicKey) => publicKey.equals(privKey.publicKey));
+			if (index === -1) {
+				throw new Error("Private key is not one of the signers.");
+			}
+			const signatures = tx.getSignatures();
+			if (signatures.some((signature) => signature.index === index)) {
+				throw new Error("Transaction is already signed by this private key.");
+			}
+			const toSign = tx.data.slice(4, tx.payloadEnd);
+			signatures.push({ index, signature: privKey.sign(Buffer.concat([signPrefix, toSign])) });
+			signatures.sort((a, b) => a.index - b.index);
+			const signatureData = Buffer.concat(signatures.map((signature) => Buffer.concat([Crypto.uInt8ToBinary(signature.index), signature.signature])));
+			return new Transaction(Buffer.concat([
+				Crypto.uInt32ToBinary(toSign.length + signatureData.length + 1),
+				toSign,
+				signatureData,
+				Crypto.uInt8ToBinary(signatures.length)
+			]));
+		}
+
+		const toSign = tx instanceof Buffer ? tx.slice(4) : Transaction.getSignData(tx);
+		if (toSign.length > 0 && Crypto.binaryToUInt8(toSign) === 2) {
+			//Create it without any signatures, then add the first signature.
+			return Transaction.sign(new Transaction(Buffer.concat([
+				Crypto.uInt32ToBinary(toSign.length + 1),
+				toSign,
+				Crypto.uInt8ToBinary(0)
+			])), signPrefix, privKey);
+		}
 		const signature = privKey.sign(Buffer.concat([signPrefix, toSign]));
 		const pubKey = privKey.publicKey;
+		//Sponsored transactions are not signed by the sponsor yet.
+		const sponsor = Buffer.alloc(Transaction.isSponsoredSignData(toSign) ? 97 : 0);
 		return new Transaction(Buffer.concat([
-			Crypto.uInt32ToBinary(toSign.length + signature.length + pubKey.length),
+			Crypto.uInt32ToBinary(toSign.length + signature.length + pubKey.length + sponsor.length),
 			toSign,
 			signature,
-			pubKey
+			pubKey,
+			sponsor
+		]));
+	}
+
+	/**
+	 * Sign a sponsored transaction as its sponsor, after it was signed by the sender.
+	 * @param tx The transaction signed by the sender
+	 * @param signPrefix The prefix to use for signing
+	 * @param privKey The private key of the sponsor
+	 * @throws if the transaction is not sponsored.
+	 */
+	public static sponsor(tx: Transaction, signPrefix: Buffer, privKey: PrivateKey): Transaction {
+		if (!tx.sponsored) {
+			throw new Error("Transaction is not sponsored.");
+		}
+		const toSign = tx.data.slice(4, -97);
+		return new Transaction(Buffer.concat([
+			tx.data.slice(0, -97),
+			privKey.sign(Buffer.concat([signPrefix, toSign])),
+			privKey.publicKey
 		]));
 	}
 
@@ -175,6 +470,358 @@ export class Transaction {
 		}
 	}
 
+	/**
+	 * Create a transaction from its canonical json representation, see toJSON().
+	 * @param json The json representation.
+	 * @throws if the json is not a valid transaction or the addresses do not match the public keys.
+	 */
+	public static fromJSON(json: JSONTransaction): Transaction {
+		const tx: UnsignedTx = {
+			version: json.version,
+			transaction_id: Transaction.hexToBinary(json.transaction_id, 16, "transaction id"),
+			contract_hash: Transaction.hexToBinary(json.contract_hash, 32, "contract hash"),
+			valid_till: json.valid_till,
+			payload: "",
+			valid_from: json.valid_from,
+			valid_from_block: json.valid_from_block,
+			valid_till_block: json.valid_till_block,
+			sequence: json.sequence,
+			dependencies: json.dependencies?.map((id) => Transaction.hexToBinary(id, 16, "dependency")),
+			payload_encoding: json.payload_encoding,
+			sponsored: json.sponsored
+		};
+		let payload: Buffer;
+		if (json.payload !== undefined && json.payload_hex === undefined) {
+			payload = Crypto.utf8ToBinary(JSON.stringify(json.payload));
+			if (json.version >= 6) {
+				payload = Transaction.encodePayload(payload, json.payload_encoding ?? PayloadEncoding.Raw);
+			}
+		} else if (json.payload === undefined && json.payload_hex !== undefined) {
+			payload = Transaction.hexToBinary(json.payload_hex, undefined, "payload");
+		} else {
+			throw new Error("Transaction must have either a payload or a payload_hex.");
+		}
+
+		let signatures: Buffer;
+		if (json.version === 2) {
+			tx.threshold = json.threshold;
+			tx.public_keys = (json.public_keys ?? []).map((publicKey) => Transaction.hexToBinary(publicKey, 33, "public key"));
+			signatures = Buffer.concat((json.signatures ?? []).map((signature) => Buffer.concat([
+				Crypto.uInt8ToBinary(signature.index),
+				Transaction.hexToBinary(signature.signature, 64, "signature")
+			])));
+			signatures = Buffer.concat([signatures, Crypto.uInt8ToBinary((json.signatures ?? []).length)]);
+		} else {
+			signatures = Buffer.concat([
+				Transaction.hexToBinary(json.signature ?? "", 64, "signature"),
+				Transaction.hexToBinary(json.public_key ?? "", 33, "public key")
+			]);
+			if (json.version >= 7 && json.sponsored === true) {
+				signatures = Buffer.concat([
+					signatures,
+					Transaction.hexToBinary(json.sponsor_signature ?? "", 64, "sponsor signature"),
+					Transaction.hexToBinary(json.sponsor_public_key ?? "", 33, "sponsor public key")
+				]);
+			}
+		}
+		//The payload is last in the signed data, so it can be appended as binary data.
+		const toSign = Buffer.concat([Transaction.getSignHeader(tx), payload]);
+		const result = new Transaction(Buffer.concat([Crypto.uInt32ToBinary(toSign.length + signatures.length), toSign, signatures]));
+
+		if (json.version === 2) {
+			const addresses = result.getSignerAddresses();
+			if ((json.signatures ?? []).some((signature, i) => signature.from !== addresses[i])) {
+				throw new Error("Address does not match public key.");
+			}
+		} else if (json.from !== undefined && json.from !== result.getAddress()) {
+			throw new Error("Address does not match public key.");
+		} else if (json.sponsor !== undefined && json.sponsor !== result.getSponsorAddress()) {
+			throw new Error("Address does not match public key.");
+		}
+		return result;
+	}
+
+	/**
+	 * Validate if a payload that is not (yet) part of a transaction is valid for a given template, see getTemplateViolations().
+	 * @param payload The parsed payload.
+	 * @param template The template to check against.
+	 * @param version The version of the contract the template is for.
+	 * @param all Whether to report all violations or stop after the first one.
+	 */
+	public static getPayloadViolations(payload: unknown, template: Template, version: ContractVersion, all: boolean = true): TemplateViolation[] {
+		if (typeof payload !== "object" || payload === null || payload instanceof Array) {
+			return [{ path: "", expected: "object", actual: Transaction.getKind(payload), message: "Payload is invalid json." }];
+		}
+		const violations: TemplateViolation[] = [];
+		Transaction.checkObject(payload as { [key: string]: unknown }, template, version, "", false, violations, all);
+		return violations;
+	}
+
+	/**
+	 * Check if a template pattern can be run on untrusted payloads without catastrophic backtracking.
+	 * Safe patterns do not use backreferences, do not repeat groups that contain a quantifier or alternative
+	 * and do not follow an unbounded quantifier (*, + or {n,}) with another unbounded quantifier.
+	 * @param pattern A valid regular expression.
+	 */
+	public static isSafePattern(pattern: string): boolean {
+		//For each open group whether it contains a quantifier or alternative and if the atom before the group was unbounded.
+		const groups: Array<{ complex: boolean; afterUnbounded: boolean }> = [{ complex: false, afterUnbounded: false }];
+		//Whether the last atom is a complex group, whether it may be quantified and whether the atom before it was unbounded.
+		let complexAtom = false;
+		let canQuantify = false;
+		let afterUnbounded = false;
+		//Whether the last atom is unbounded, which includes the last atom inside a group that was just closed.
+		let unbounded = false;
+		let i = 0;
+		while (i < pattern.length) {
+			const char = pattern[i];
+			const quantifier = /^(?:[*+?]|\{[0-9]+(?:,[0-9]*)?\})/.exec(pattern.slice(i));
+			if (quantifier !== null && canQuantify) {
+				if (complexAtom) {
+					return false;
+				}
+				if (quantifier[0] === "*" || quantifier[0] === "+" || quantifier[0].endsWith(",}")) {
+					if (afterUnbounded) {
+						return false;
+					}
+					unbounded = true;
+				}
+				groups[groups.length - 1].complex = true;
+				canQuantify = false;
+				i += quantifier[0].length;
+				//Lazy quantifiers backtrack the same way.
+				if (pattern[i] === "?") {
+					i++;
+				}
+			} else if (char === "(") {
+				groups.push({ complex: false, afterUnbounded: unbounded });
+				canQuantify = false;
+				i += /^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/.exec(pattern.slice(i))![0].length;
+			} else if (char === ")") {
+				const group = groups.pop()!;
+				if (groups.length === 0) {
+					return false;
+				}
+				groups[groups.length - 1].complex = groups[groups.length - 1].complex || group.complex;
+				complexAtom = group.complex;
+				afterUnbounded = group.afterUnbounded;
+				canQuantify = true;
+				i++;
+			} else if (char === "|") {
+				groups[groups.length - 1].complex = true;
+				canQuantify = false;
+				unbounded = false;
+				i++;
+			} else {
+				if (char === "\\") {
+					//Backreferences can take exponential time.
+					if (/[1-9k]/.test(pattern[i + 1])) {
+						return false;
+					}
+					i += 2;
+				} else if (char === "[") {
+					//Skip the character class, which ends at the first unescaped ].
+					i += pattern[i + 1] === "^" ? 2 : 1;
+					while (i < pattern.length && pattern[i] !== "]") {
+						i += pattern[i] === "\\" ? 2 : 1;
+					}
+					i++;
+				} else {
+					i++;
+				}
+				complexAtom = false;
+				canQuantify = true;
+				afterUnbounded = unbounded;
+				unbounded = false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Get the data that is signed for an unsigned transaction (excluding the sign prefix).
+	 * @throws if the data could not be constructed.
+	 */
+	public static getSignData(tx: UnsignedTx): Buffer {
+		let payload = Crypto.utf8ToBinary(tx.payload);
+		if (tx.version >= 6) {
+			payload = tx.encoded_payload ?? Transaction.encodePayload(payload, tx.payload_encoding ?? PayloadEncoding.Raw);
+		}
+		//The payload is always last in the signed data.
+		return Buffer.concat([Transaction.getSignHeader(tx), payload]);
+	}
+
+	/**
+	 * Get an unsigned transaction from the data that is signed (excluding the sign prefix), the reverse of getSignData().
+	 * @throws if the data is not a valid unsigned transaction.
+	 */
+	public static parseSignData(data: Buffer): UnsignedTx {
+		if (data.length < 57) {
+			throw new Error("Unable to construct transaction.");
+		}
+		const tx: UnsignedTx = {
+			version: Crypto.binaryToUInt8(data.slice(0, 1)),
+			transaction_id: data.slice(1, 17),
+			contract_hash: data.slice(17, 49),
+			valid_till: Crypto.binaryToULong(data.slice(49, 57)),
+			payload: ""
+		};
+		let payloadStart = 57;
+		if (tx.version === 2) {
+			if (data.length < 59) {
+				throw new Error("Unable to construct transaction.");
+			}
+			tx.threshold = Crypto.binaryToUInt8(data.slice(57, 58));
+			payloadStart = 59 + Crypto.binaryToUInt8(data.slice(58, 59)) * 33;
+			if (data.length < payloadStart) {
+				throw new Error("Unable to construct transaction.");
+			}
+			tx.public_keys = [];
+			for (let location = 59; location < payloadStart; location += 33) {
+				tx.public_keys.push(data.slice(location, location + 33));
+			}
+		} else if (tx.version < 1 || tx.version > Transaction.maxVersion) {
+			throw new Error("Unsupported version.");
+		} else if (tx.version >= 3) {
+			payloadStart = Transaction.getHeaderLength(tx.version) - 4;
+			if (data.length < payloadStart) {
+				throw new Error("Unable to construct transaction.");
+			}
+			tx.valid_from = Crypto.binaryToULong(data.slice(57, 65));
+			tx.valid_from_block = Crypto.binaryToULong(data.slice(65, 73));
+			tx.valid_till_block = Crypto.binaryToULong(data.slice(73, 81));
+			if (tx.version >= 4) {
+				tx.sequence = Crypto.binaryToULong(data.slice(81, 89));
+			}
+			if (tx.version >= 5) {
+				const dependenciesAmount = Crypto.binaryToUInt8(data.slice(89, 90));
+				payloadStart += dependenciesAmount * 16;
+				if (data.length < payloadStart) {
+					throw new Error("Unable to construct transaction.");
+				}
+				tx.dependencies = [];
+				for (let location = 90; location < 90 + dependenciesAmount * 16; location += 16) {
+					tx.dependencies.push(data.slice(location, location + 16));
+				}
+			}
+			if (tx.version >= 7) {
+				tx.sponsored = Crypto.binaryToUInt8(data.slice(payloadStart - 1, payloadStart)) === 1;
+			}
+			if (tx.version >= 6) {
+				const encodingStart = payloadStart - (tx.version >= 7 ? 2 : 1);
+				tx.payload_encoding = Crypto.binaryToUInt8(data.slice(encodingStart, encodingStart + 1));
+				tx.payload = Crypto.binaryToUtf8(Transaction.decodePayload(data.slice(payloadStart), tx.payload_encoding));
+				if (tx.payload_encoding !== PayloadEncoding.Raw) {
+					tx.encoded_payload = data.slice(payloadStart);
+				}
+				return tx;
+			}
+		}
+		tx.payload = Crypto.binaryToUtf8(data.slice(payloadStart));
+		return tx;
+	}
+
+	/**
+	 * Encode a payload to store it in a transaction.
+	 * @throws if the encoding is not supported.
+	 */
+	public static encodePayload(payload: Buffer, encoding: PayloadEncoding): Buffer {
+		switch (encoding) {
+			case PayloadEncoding.Raw:
+				return payload;
+			case PayloadEncoding.Deflate:
+				return deflateRawSync(payload, { level: 9 });
+			default:
+				throw new Error("Unsupported payload encoding.");
+		}
+	}
+
+	/**
+	 * Decode a payload that was stored in a transaction.
+	 * @throws if the encoding is not supported, the payload could not be decoded or it is too large once decoded.
+	 */
+	public static decodePayload(payload: Buffer, encoding: PayloadEncoding): Buffer {
+		switch (encoding) {
+			case PayloadEncoding.Raw:
+				return payload;
+			case PayloadEncoding.Deflate:
+				try {
+					//Stops decompressing once it is too large, so it cannot be used to exhaust memory.
+					return Inflate.inflateRaw(payload, Transaction.maxDecodedPayloadLength);
+				} catch (error) {
+					throw new Error(error instanceof RangeError ? "Payload too large." : "Invalid compressed payload.");
+				}
+			default:
+				throw new Error("Unsupported payload encoding.");
+		}
+	}
+
+	/** Get where the payload starts for a single signature transaction of a certain version, excluding any dependencies. */
+	private static getHeaderLength(version: number): number {
+		return version >= 7 ? 96 : version >= 6 ? 95 : version >= 5 ? 94 : version >= 4 ? 93 : version >= 3 ? 85 : 61;
+	}
+
+	/** Get whether the data that is signed (excluding the sign prefix) is of a sponsored transaction. */
+	private static isSponsoredSignData(data: Buffer): boolean {
+		if (data.length < 92 || Crypto.binaryToUInt8(data.slice(0, 1)) < 7) {
+			return false;
+		}
+		const location = 91 + Crypto.binaryToUInt8(data.slice(89, 90)) * 16;
+		return location < data.length && Crypto.binaryToUInt8(data.slice(location, location + 1)) === 1;
+	}
+
+	/** Get whether binary data consists of only zeros. */
+	private static isZero(data: Buffer): boolean {
+		return data.every((value) => value === 0);
+	}
+
+	/**
+	 * Get the data that is signed for an unsigned transaction up to the payload.
+	 * @throws if the data could not be constructed.
+	 */
+	private static getSignHeader(tx: UnsignedTx): Buffer {
+		const data = [
+			Crypto.uInt8ToBinary(tx.version), //This will throw an error if version <0 or >255
+			tx.transaction_id,
+			tx.contract_hash,
+			Crypto.uLongToBinary(tx.valid_till)
+		];
+		if (tx.version === 2) {
+			if (tx.threshold === undefined || tx.public_keys === undefined) {
+				throw new Error("Missing threshold or public keys.");
+			}
+			data.push(Crypto.uInt8ToBinary(tx.threshold), Crypto.uInt8ToBinary(tx.public_keys.length), ...tx.public_keys);
+		}
+		if (tx.version >= 3) {
+			data.push(Crypto.uLongToBinary(tx.valid_from ?? 0), Crypto.uLongToBinary(tx.valid_from_block ?? 0), Crypto.uLongToBinary(tx.valid_till_block ?? 0));
+		}
+		if (tx.version >= 4) {
+			data.push(Crypto.uLongToBinary(tx.sequence ?? 0));
+		}
+		if (tx.version >= 5) {
+			const dependencies = tx.dependencies ?? [];
+			data.push(Crypto.uInt8ToBinary(dependencies.length), ...dependencies);
+		}
+		if (tx.version >= 6) {
+			data.push(Crypto.uInt8ToBinary(tx.payload_encoding ?? PayloadEncoding.Raw));
+		}
+		if (tx.version >= 7) {
+			data.push(Crypto.uInt8ToBinary(tx.sponsored === true ? 1 : 0));
+		}
+		return Buffer.concat(data);
+	}
+
+	/**
+	 * Get binary data from a hex value in a json representation.
+	 * @throws if it is not hex of the given length.
+	 */
+	private static hexToBinary(hex: unknown, length: number | undefined, name: string): Buffer {
+		if (typeof hex !== "string" || !Crypto.isHex(hex) || (length !== undefined && hex.length !== length * 2)) {
+			throw new Error(`Invalid ${name}.`);
+		}
+		return Crypto.hexToBinary(hex);
+	}
+
 	public getId(): Buffer {
 		return this.data.slice(5, 21);
 	}
@@ -183,26 +830,140 @@ export class Transaction {
 		return this.data.slice(21, 53);
 	}
 
-	/** Get the payload of this transaction in binary format, does not validate if the payload is a valid json object. */
+	/**
+	 * Get the payload of this transaction in binary format, does not validate if the payload is a valid json object.
+	 * @throws if the payload is encoded and could not be decoded.
+	 */
 	public getPayloadBinary(): Buffer {
-		return this.data.slice(61, - 97);
+		if (this.payloadEncoding === PayloadEncoding.Raw) {
+			return this.getEncodedPayloadBinary();
+		}
+		if (this.decodedPayload === undefined) {
+			this.decodedPayload = Transaction.decodePayload(this.getEncodedPayloadBinary(), this.payloadEncoding);
+		}
+		return this.decodedPayload;
 	}
 
-	/** Get the signature of this transaction. Consists of 32 bytes r, followed by 32 bytes s. */
+	/** Get the payload as it is stored in this transaction, which is only different from getPayloadBinary() for encoded payloads. */
+	public getEncodedPayloadBinary(): Buffer {
+		return this.data.slice(this.payloadStart, this.payloadEnd);
+	}
+
+	/**
+	 * Get the signature of this transaction. Consists of 32 bytes r, followed by 32 bytes s.
+	 * @throws if this is a multi-signature transaction, use getSignatures() instead.
+	 */
 	public getSignature(): Buffer {
-		return this.data.slice(- 97, - 33);
+		if (this.version === 2) {
+			throw new Error("Multi-signature transaction has multiple signatures.");
+		}
+		return this.data.slice(this.payloadEnd, this.payloadEnd + 64);
 	}
 
-	/** Get the public key as binary data. You can use new PublicKey(data) to generate a public key from this. */
+	/**
+	 * Get the signature data as stored in the database (see DBTransaction). For single signature transactions this is the signature,
+	 * for multi-signature transactions all signatures, each prefixed with 1 byte for the index of the public key that created it.
+	 */
+	public getSignatureData(): Buffer {
+		if (this.version !== 2) {
+			return this.getSignature();
+		}
+		return this.data.slice(this.payloadEnd, -1);
+	}
+
+	/**
+	 * Get the public key as binary data. You can use new PublicKey(data) to generate a public key from this.
+	 * @throws if this is a multi-signature transaction, use getPublicKeys() instead.
+	 */
 	public getPublicKeyBuffer(): Buffer {
-		return this.data.slice(- 33);
+		if (this.version === 2) {
+			throw new Error("Multi-signature transaction has multiple public keys.");
+		}
+		return this.data.slice(this.payloadEnd + 64, this.payloadEnd + 97);
 	}
 
-	/** Get the address from the public key of this transaction. */
+	/**
+	 * Get the address from the public key of this transaction.
+	 * @throws if this is a multi-signature transaction, use getSignerAddresses() instead.
+	 */
 	public getAddress(): string {
 		return new PublicKey(this.getPublicKeyBuffer(), true).getAddress();
 	}
 
+	/**
+	 * Get the signature of the sponsor, which is only zeros if the sponsor did not sign yet.
+	 * @throws if this is not a sponsored transaction.
+	 */
+	public getSponsorSignature(): Buffer {
+		if (!this.sponsored) {
+			throw new Error("Transaction is not sponsored.");
+		}
+		return this.data.slice(-97, -33);
+	}
+
+	/**
+	 * Get the public key of the sponsor as binary data, which is only zeros if the sponsor did not sign yet.
+	 * @throws if this is not a sponsored transaction.
+	 */
+	public getSponsorPublicKeyBuffer(): Buffer {
+		if (!this.sponsored) {
+			throw new Error("Transaction is not sponsored.");
+		}
+		return this.data.slice(-33);
+	}
+
+	/** Get the address of the sponsor, or undefined if it is not sponsored or the sponsor did not sign yet. */
+	public getSponsorAddress(): string | undefined {
+		if (!this.sponsored || Transaction.isZero(this.getSponsorPublicKeyBuffer())) {
+			return undefined;
+		}
+		return new PublicKey(this.getSponsorPublicKeyBuffer(), true).getAddress();
+	}
+
+	/** Get all signatures of this transaction, for single signature transactions this is only the signature at index 0. */
+	public getSignatures(): TxSignature[] {
+		if (this.version !== 2) {
+			return [{ index: 0, signature: this.getSignature() }];
+		}
+		const result: TxSignature[] = [];
+		for (let location = this.payloadEnd; location < this.data.length - 1; location += 65) {
+			result.push({
+				index: Crypto.binaryToUInt8(this.data.slice(location, location + 1)),
+				signature: this.data.slice(location + 1, location + 65)
+			});
+		}
+		return result;
+	}
+
+	/** Get all public keys that may sign this transaction, for single signature transactions this is only its public key. */
+	public getPublicKeys(): Buffer[] {
+		if (this.version !== 2) {
+			return [this.getPublicKeyBuffer()];
+		}
+		const result: Buffer[] = [];
+		for (let location = 63; location < this.payloadStart; location += 33) {
+			result.push(this.data.slice(location, location + 33));
+		}
+		return result;
+	}
+
+	/** Get the ids of all transactions that must be accepted before this transaction, empty before version 5. */
+	public getDependencies(): Buffer[] {
+		const result: Buffer[] = [];
+		if (this.version >= 5) {
+			for (let location = 94; location < 94 + Crypto.binaryToUInt8(this.data.slice(93, 94)) * 16; location += 16) {
+				result.push(this.data.slice(location, location + 16));
+			}
+		}
+		return result;
+	}
+
+	/** Get the addresses of everyone that signed this transaction, does not validate if the signatures are correct. */
+	public getSignerAddresses(): string[] {
+		const publicKeys = this.getPublicKeys();
+		return this.getSignatures().map((signature) => new PublicKey(publicKeys[signature.index], true).getAddress());
+	}
+
 	/** Get the payload of this transaction or undefined if it is not a valid json object. */
 	public getPayloadJson(): object | undefined {
 		//If we don't know yet if it is valid parse it now.
@@ -219,76 +980,285 @@ export class Transaction {
 		return this.payload;
 	}
 
-	/** Get whether or not the signature for this transaction is valid. */
-	public verifySignature(signPrefix: Buffer): boolean {
+	/** Whether the payload is a json object serialized with the JSON Canonicalization Scheme (RFC 8785), see Crypto.toCanonicalJson(). */
+	public isCanonicalPayload(): boolean {
+		const payload = this.getPayloadJson();
+		try {
+			return payload !== undefined && Crypto.utf8ToBinary(Crypto.toCanonicalJson(payload)).equals(this.getPayloadBinary());
+		} catch (error) {
+			return false;
+		}
+	}
+
+	/**
+	 * Get the canonical json representation of this transaction, which fromJSON() turns back into exactly the same transaction.
+	 * The payload is only included as json if it is raw and serializing it gives exactly the same payload, otherwise it is included as hex.
+	 * Encoded payloads are always included as hex, as encoding it again may not give the same bytes (e.g. with another zlib version).
+	 */
+	public toJSON(): JSONTransaction {
+		const result: JSONTransaction = {
+			version: this.version,
+			transaction_id: Crypto.binaryToHex(this.getId()),
+			contract_hash: Crypto.binaryToHex(this.getContractHash()),
+			valid_till: this.validTill
+		};
+		const payload = this.getPayloadJson();
+		if (payload !== undefined && this.payloadEncoding === PayloadEncoding.Raw && Crypto.utf8ToBinary(JSON.stringify(payload)).equals(this.getPayloadBinary())) {
+			//Parse it again, so changes to the result do not change the cached payload.
+			result.payload = JSON.parse(Crypto.binaryToUtf8(this.getPayloadBinary()));
+		} else {
+			result.payload_hex = Crypto.binaryToHex(this.getEncodedPayloadBinary());
+		}
+		if (this.version === 2) {
+			const addresses = this.getSignerAddresses();
+			result.threshold = this.threshold;
+			result.public_keys = this.getPublicKeys().map((publicKey) => Crypto.binaryToHex(publicKey));
+			result.signatures = this.getSignatures().map((signature, i) => ({
+				index: signature.index,
+				from: addresses[i],
+				signature: Crypto.binaryToHex(signature.signature)
+			}));
+		} else {
+			result.from = this.getAddress();
+			result.public_key = Crypto.binaryToHex(this.getPublicKeyBuffer());
+			result.signature = Crypto.binaryToHex(this.getSignature());
+		}
+		if (this.version >= 3) {
+			result.valid_from = this.validFrom;
+			result.valid_from_block = this.validFromBlock;
+			result.valid_till_block = this.validTillBlock;
+		}
+		if (this.version >= 4) {
+			result.sequence = this.sequence;
+		}
+		if (this.version >= 5) {
+			result.dependencies = this.getDependencies().map((id) => Crypto.binaryToHex(id));
+		}
+		if (this.version >= 6) {
+			result.payload_encoding = this.payloadEncoding;
+		}
+		if (this.version >= 7) {
+			result.sponsored = this.sponsored;
+			if (this.sponsored) {
+				result.sponsor = this.getSponsorAddress();
+				result.sponsor_public_key = Crypto.binaryToHex(this.getSponsorPublicKeyBuffer());
+				result.sponsor_signature = Crypto.binaryToHex(this.getSponsorSignature());
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Get whether or not the signature for this transaction is valid.
+	 * For multi-signature transactions all signatures must be valid and there must be at least threshold signatures.
+	 * For sponsored transactions the signature of the sponsor must be valid as well.
+	 * @param signPrefix The prefix to check against.
+	 * @param requireSponsor Whether a sponsored transaction must already be signed by its sponsor.
+	 */
+	public verifySignature(signPrefix: Buffer, requireSponsor: boolean = true): boolean {
 		try {
-			return new PublicKey(this.getPublicKeyBuffer(), true).verify(Buffer.concat([signPrefix, this.data.slice(4, - 97)]), this.getSignature());
+			const signatures = this.getSignatures();
+			if (signatures.length < this.threshold) {
+				return false;
+			}
+			const publicKeys = this.getPublicKeys();
+			const signedData = Buffer.concat([signPrefix, this.data.slice(4, this.payloadEnd)]);
+			if (this.sponsored && (requireSponsor || this.getSponsorAddress() !== undefined) && !new PublicKey(this.getSponsorPublicKeyBuffer(), true).verify(
+				Buffer.concat([signPrefix, this.data.slice(4, -97)]), this.getSponsorSignature())) {
+				return false;
+			}
+			return signatures.every((signature) => new PublicKey(publicKeys[signature.index], true).verify(signedData, signature.signature));
 		} catch (error) {
 			return false;
 		}
 	}
 
 	/** Validate if this payload is valid for a given template. Will return an error string or undefined. */
-	public verifyTemplate(template: Template, version: 1 | 2): string | undefined {
+	public verifyTemplate(template: Template, version: ContractVersion): string | undefined {
+		const violations = this.getTemplateViolations(template, version, false);
+		return violations.length === 0 ? undefined : violations[0].message;
+	}
+
+	/**
+	 * Validate if this payload is valid for a given template and report everything that is wrong with it.
+	 * @param template The template to check against.
+	 * @param version The version of the contract the template is for.
+	 * @param all Whether to report all violations or stop after the first one.
+	 */
+	public getTemplateViolations(template: Template, version: ContractVersion, all: boolean = true): TemplateViolation[] {
 		//If we did not validate the json yet do this now.
 		if (!this.verifiedPayload) {
 			this.getPayloadJson();
 		}
 		if (this.payload === undefined) {
-			return "Payload is invalid json.";
+			let actual = "invalid json";
+			try {
+				actual = Transaction.getKind(JSON.parse(Crypto.binaryToUtf8(this.getPayloadBinary())));
+			} catch (error) { }
+			return [{ path: "", expected: "object", actual, message: "Payload is invalid json." }];
 		}
 
+		return Transaction.getPayloadViolations(this.payload, template, version, all);
+	}
+
+	/**
+	 * Check if all keys of an object are valid for a template.
+	 * @param value The object to check.
+	 * @param template The template to check against.
+	 * @param path The path to the object.
+	 * @param nested Whether this is an object inside the payload or the payload itsself.
+	 * @param violations The list to add violations to.
+	 * @param all Whether to continue after the first violation.
+	 */
+	private static checkObject(value: { [key: string]: unknown }, template: Template, version: ContractVersion, path: string,
+		nested: boolean, violations: TemplateViolation[], all: boolean): void {
+
 		//Check if there aren't too many parameters.
-		const templateKeys = Object.keys(template);
-		if (Object.keys(this.payload).some((payloadKey) => template[payloadKey] === undefined)) {
-			return "Payload has extra key.";
+		for (const valueKey of Object.keys(value)) {
+			if (template[valueKey] === undefined) {
+				violations.push({
+					path: Transaction.joinPath(path, valueKey),
+					expected: "no key",
+					actual: Transaction.getKind(value[valueKey]),
+					message: nested ? "Payload has extra key in object" : "Payload has extra key."
+				});
+				if (!all) {
+					return;
+				}
+			}
 		}
 
 		//Check if each key is valid
-		for (const key of templateKeys) {
-			const payloadKey = this.payload[key];
-			const templateKeyType = template[key].type;
-			if (templateKeyType.endsWith("Array")) {
-				//If it is an array type check if it is indeed an array and all values inside are valid.
-				if (!(payloadKey instanceof Array)) {
-					return "Payload has invalid or missing array type";
+		for (const key of Object.keys(template)) {
+			Transaction.checkEntry(value[key], template[key], version, Transaction.joinPath(path, key), violations, all);
+			if (!all && violations.length > 0) {
+				return;
+			}
+		}
+	}
 
+	/**
+	 * Check if a value is valid for a template entry, including array and optional types.
+	 * @param value The value to check.
+	 * @param entry The template entry to check against.
+	 * @param path The path to the value.
+	 * @param violations The list to add violations to.
+	 * @param all Whether to continue after the first violation.
+	 */
+	private static checkEntry(value: any, entry: TemplateEntry, version: ContractVersion, path: string, violations: TemplateViolation[], all: boolean): void {
+		const templateKeyType = entry.type;
+		if (templateKeyType.endsWith("Array")) {
+			//If it is an array type check if it is indeed an array and all values inside are valid.
+			if (!(value instanceof Array)) {
+				violations.push({ path, expected: "array", actual: Transaction.getKind(value), message: "Payload has invalid or missing array type" });
+				return;
+			}
+			if (version >= 3 && entry.maxItems !== undefined && value.length > entry.maxItems) {
+				violations.push({ path, expected: `maxItems ${entry.maxItems}`, actual: "array", message: "Payload has too many items in array" });
+				if (!all) {
+					return;
 				}
-				const subType = templateKeyType.slice(0, -5);
-				for (const payloadSubKey of payloadKey) {
-					const checkTypeResult = this.checkType(payloadSubKey, subType, version);
-					if (checkTypeResult !== undefined) {
-						return checkTypeResult + " in array";
-					}
+			}
+			const subType = templateKeyType.slice(0, -5);
+			const subViolations: TemplateViolation[] = [];
+			for (let i = 0; i < value.length && (all || subViolations.length === 0); i++) {
+				Transaction.checkValue(value[i], subType, entry, version, `${path}[${i}]`, subViolations, all);
+			}
+			for (const subViolation of subViolations) {
+				violations.push(Object.assign(subViolation, { message: subViolation.message + " in array" }));
+			}
+		} else if (templateKeyType.endsWith("?") && version !== 1) {
+			//If it is an optional single type
+			if (value !== undefined) {
+				Transaction.checkValue(value, templateKeyType.slice(0, -1), entry, version, path, violations, all);
+			}
+		} else {
+			//If it is a single type
+			Transaction.checkValue(value, templateKeyType, entry, version, path, violations, all);
+		}
+	}
+
+	/**
+	 * Check if a value is of a valid type and matches the constraints, objects and tuples are checked recursively.
+	 * @param value The value to check.
+	 * @param type The type to check against, without array or optional suffix.
+	 * @param entry The template entry the type is from.
+	 * @param path The path to the value.
+	 * @param violations The list to add violations to.
+	 * @param all Whether to continue after the first violation.
+	 */
+	private static checkValue(value: any, type: string, entry: TemplateEntry, version: ContractVersion, path: string,
+		violations: TemplateViolation[], all: boolean): void {
+
+		//Types that were added in version 3 are treated as strings by older versions.
+		if (version < 3 && Transaction.typesV3.indexOf(type) !== -1) {
+			type = "str";
+		}
+
+		if (type === "obj") {
+			if (typeof value !== "object" || value === null || value instanceof Array) {
+				violations.push({ path, expected: type, actual: Transaction.getKind(value), message: "Payload has invalid or missing object type" });
+			} else {
+				Transaction.checkObject(value, entry.template ?? {}, version, path, true, violations, all);
+			}
+		} else if (type === "tuple") {
+			const items = entry.items ?? [];
+			if (!(value instanceof Array) || value.length !== items.length) {
+				violations.push({ path, expected: type, actual: Transaction.getKind(value), message: "Payload has invalid or missing tuple type" });
+			} else {
+				const subViolations: TemplateViolation[] = [];
+				for (let i = 0; i < items.length && (all || subViolations.length === 0); i++) {
+					Transaction.checkEntry(value[i], items[i], version, `${path}[${i}]`, subViolations, all);
 				}
-			} else if (templateKeyType.endsWith("?") && version !== 1) {
-				const subType = templateKeyType.slice(0, -1);
-				//If it is an optional single type
-				if (payloadKey !== undefined) {
-					const checkTypeResult = this.checkType(payloadKey, subType, version);
-					if (checkTypeResult !== undefined) {
-						return checkTypeResult;
-					}
+				for (const subViolation of subViolations) {
+					violations.push(Object.assign(subViolation, { message: subViolation.message + " in tuple" }));
 				}
-			} else {
-				//If it is a single type
-				const checkTypeResult = this.checkType(payloadKey, templateKeyType, version);
-				if (checkTypeResult !== undefined) {
-					return checkTypeResult;
+			}
+		} else {
+			const checkTypeResult = Transaction.checkType(value, type, version, entry);
+			if (checkTypeResult !== undefined) {
+				violations.push({ path, expected: type, actual: Transaction.getKind(value), message: checkTypeResult });
+			} else if (version >= 3) {
+				//Constraints were added in version 3, older versions only check the type.
+				const checkConstraintsResult = Transaction.checkConstraints(value, entry);
+				if (checkConstraintsResult !== undefined) {
+					violations.push(Object.assign({ path, actual: Transaction.getKind(value) }, checkConstraintsResult));
 				}
 			}
 		}
-		return undefined;
 	}
 
 	/**
 	 * Check if a value is of a valid type. Returns an error string or undefined.
 	 * @param value The value to check.
 	 * @param type The type to check against.
+	 * @param entry The template entry the type is from.
 	 */
-	private checkType(value: any, type: string, version: 1 | 2): string | undefined {
+	private static checkType(value: any, type: string, version: ContractVersion, entry: TemplateEntry): string | undefined {
 		//Check what type of payload the contract requires for a certain key.
 		switch (type) {
+			case "bigint":
+				//Arbitrary precision numbers are encoded as string, as json numbers cannot carry them safely.
+				if (typeof value !== "string" || !Transaction.bigintRegex.test(value)) { return "Payload has invalid or missing bigint type"; }
+				break;
+			case "decimal":
+				if (typeof value !== "string" || !Transaction.decimalRegex.test(value) ||
+					entry.scale !== undefined && value.indexOf(".") !== -1 && value.length - value.indexOf(".") - 1 > entry.scale) {
+					return "Payload has invalid or missing decimal type";
+				}
+				break;
+			case "timestamp":
+				if (typeof value !== "string" || !Transaction.isTimestamp(value)) { return "Payload has invalid or missing timestamp type"; }
+				break;
+			case "uuid":
+				if (typeof value !== "string" || !Transaction.uuidRegex.test(value)) { return "Payload has invalid or missing uuid type"; }
+				break;
+			case "url":
+				if (typeof value !== "string" || value.length > 2048 || !Transaction.urlRegex.test(value)) { return "Payload has invalid or missing url type"; }
+				break;
+			case "email":
+				if (typeof value !== "string" || value.length > 254 || !Transaction.emailRegex.test(value)) { return "Payload has invalid or missing email type"; }
+				break;
 			case "bool":
 				if (typeof value !== "boolean") { return "Payload has invalid or missing boolean type"; }
 				break;
@@ -332,4 +1302,63 @@ export class Transaction {
 		}
 		return undefined;
 	}
+
+	/**
+	 * Check if a string is a valid ISO-8601 timestamp with date, time and timezone, e.g. 2020-02-29T12:00:00.000Z
+	 * @param value The string to check.
+	 */
+	private static isTimestamp(value: string): boolean {
+		const match = Transaction.timestampRegex.exec(value);
+		if (match === null) {
+			return false;
+		}
+		const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number.parseInt(part, 10));
+		const isLeapYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+		const daysInMonth = [31, isLeapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+		return day >= 1 && day <= daysInMonth && hour <= 23 && minute <= 59 && second <= 59 &&
+			(match[7] === undefined || Number.parseInt(match[7], 10) <= 23 && Number.parseInt(match[8], 10) <= 59);
+	}
+
+	/**
+	 * Check if a value that is of a valid type also matches the constraints of the template.
+	 * Returns the error message and what was expected or undefined.
+	 * @param value The value to check.
+	 * @param entry The template entry with the constraints to check against.
+	 */
+	private static checkConstraints(value: any, entry: TemplateEntry): { expected: string; message: string } | undefined {
+		if (entry.minimum !== undefined && value < entry.minimum) {
+			return { expected: `minimum ${entry.minimum}`, message: "Payload has value below minimum" };
+		}
+		if (entry.maximum !== undefined && value > entry.maximum) {
+			return { expected: `maximum ${entry.maximum}`, message: "Payload has value above maximum" };
+		}
+		if (entry.minLength !== undefined && value.length < entry.minLength) {
+			return { expected: `minLength ${entry.minLength}`, message: "Payload has value below minimum length" };
+		}
+		if (entry.maxLength !== undefined && value.length > entry.maxLength) {
+			return { expected: `maxLength ${entry.maxLength}`, message: "Payload has value above maximum length" };
+		}
+		//A pattern always has a maximum length, which is checked first to limit how long the pattern may run.
+		if (entry.pattern !== undefined && !new RegExp(entry.pattern).test(value)) {
+			return { expected: `pattern ${JSON.stringify(entry.pattern)}`, message: "Payload has value not matching pattern" };
+		}
+		if (entry.enum !== undefined && entry.enum.indexOf(value) === -1) {
+			return { expected: `enum ${JSON.stringify(entry.enum)}`, message: "Payload has value not in enum" };
+		}
+		return undefined;
+	}
+
+	/** Get what kind of json value something is: undefined, null, boolean, number, string, array or object. */
+	private static getKind(value: unknown): string {
+		return value === null ? "null" : value instanceof Array ? "array" : typeof value;
+	}
+
+	/** Add a key to a path, using brackets for keys that are not valid identifiers. */
+	private static joinPath(path: string, key: string): string {
+		if (/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)) {
+			return path === "" ? key : `${path}.${key}`;
+		} else {
+			return `${path}[${JSON.stringify(key)}]`;
+		}
+	}
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Template, TemplateEntry, ContractVersion, CreatePayload, Contract } from "./basic";
+import { Transaction } from "./transaction";
+import { Crypto } from "../tools/crypto";
+
+/**
+ * Generate TypeScript typings for the payload of a contract, so client code fails to compile when a template changes.
+ * The generated code contains an interface for the payload and a function to create an unsigned transaction with it.
+ */
+export class Typings {
+	/** The module that the generated code imports UnsignedTx from. */
+	public static module = "@coinversable/validana-core";
+
+	/**
+	 * Generate typings for the contract that will be created by a create contract payload.
+	 * @param payload The payload used to create the contract.
+	 * @throws If the template is not valid json.
+	 */
+	public static fromCreatePayload(payload: CreatePayload): string {
+		const validanaVersion = payload.validanaVersion ?? 1;
+		let code = Crypto.binaryToUtf8(Crypto.base64ToBinary(payload.code));
+		if (validanaVersion !== 1) {
+			code = '"use strict";' + code;
+		}
+		const template: Template = typeof payload.template === "string" ? JSON.parse(payload.template) : payload.template;
+		return Typings.fromTemplate(payload.type, Crypto.hash256(code), template, validanaVersion);
+	}
+
+	/**
+	 * Generate typings for an existing contract, such as from basics.contracts.
+	 * @param contractHash The hash of the contract.
+	 * @param contract The contract (only the type, template and version are used).
+	 */
+	public static fromContract(contractHash: Buffer, contract: Pick<Contract, "type" | "template" | "validanaVersion">): string {
+		return Typings.fromTemplate(contract.type, contractHash, contract.template, contract.validanaVersion);
+	}
+
+	/**
+	 * Generate typings for a template.
+	 * @param type The type of contract, which is used to name the generated interface and function.
+	 * @param contractHash The hash of the contract.
+	 * @param template The template of the contract.
+	 * @param version The version of the contract, as types differ per version.
+	 */
+	public static fromTemplate(type: string, contractHash: Buffer, template: Template, version: ContractVersion): string {
+		const name = Typings.toIdentifier(type);
+		return `/* Generated from the template of contract ${JSON.stringify(type)} (validana version ${version}). */\n` +
+			`import { UnsignedTx } from ${JSON.stringify(Typings.module)};\n\n` +
+			`export interface ${name}Payload ${Typings.objectType(template, version, "")}\n\n` +
+			`export const ${name}ContractHash = "${Crypto.binaryToHex(contractHash)}";\n\n` +
+			`/** Create an unsigned transaction for the ${JSON.stringify(type)} contract. */\n` +
+			`export function create${name}Tx(payload: ${name}Payload, transactionId: Buffer, validTill: number): UnsignedTx {\n` +
+			"\treturn {\n" +
+			"\t\tversion: 1,\n" +
+			"\t\ttransaction_id: transactionId,\n" +
+			`\t\tcontract_hash: Buffer.from(${name}ContractHash, "hex"),\n` +
+			"\t\tvalid_till: validTill,\n" +
+			"\t\tpayload: JSON.stringify(payload)\n" +
+			"\t};\n" +
+			"}\n";
+	}
+
+	/** Turn a contract type into a PascalCase identifier. */
+	private static toIdentifier(type: string): string {
+		const name = type.split(/[^0-9A-Za-z]+/).map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join("");
+		return /^[A-Za-z]/.test(name) ? name : "Contract" + name;
+	}
+
+	/** The type of an object with the keys of a (nested) template. */
+	private static objectType(template: Template, version: ContractVersion, indent: string): string {
+		let result = "{\n";
+		for (const key of Object.keys(template)) {
+			const entry = template[key];
+			const optional = version !== 1 && entry.type.endsWith("?") && !entry.type.endsWith("Array");
+			const type = optional ? entry.type.slice(0, -1) : entry.type;
+			const comment = [entry.name, entry.desc].filter((part) => part !== undefined && part !== "").join(": ");
+			if (comment !== "") {
+				result += `${indent}\t/** ${comment.replace(/\*\//g, "* /")} */\n`;
+			}
+			const property = /^[A-Za-z_$][0-9A-Za-z_$]*$/.test(key) ? key : JSON.stringify(key);
+			result += `${indent}\t${property}${optional ? "?" : ""}: ${Typings.valueType(type, entry, version, indent + "\t")};\n`;
+		}
+		return result + indent + "}";
+	}
+
+	/** The type of a value for a template entry, the type itself may no longer be optional. */
+	private static valueType(type: string, entry: TemplateEntry, version: ContractVersion, indent: string): string {
+		if (type.endsWith("Array")) {
+			return `Array<${Typings.valueType(type.slice(0, -5), entry, version, indent)}>`;
+		}
+		if (entry.enum !== undefined) {
+			return entry.enum.map((value) => JSON.stringify(value)).join(" | ");
+		}
+		//Types that were added in version 3 are treated as strings by older versions.
+		if (version < 3 && Transaction.typesV3.indexOf(type) !== -1) {
+			return "string";
+		}
+		switch (type) {
+			case "bool":
+				return "boolean";
+			case "int":
+			case "uint":
+			case "float":
+				return "number";
+			case "json":
+				//Version 1 expects json encoded as string, later versions accept any json value.
+				return version === 1 ? "string" : "unknown";
+			case "obj":
+				return Typings.objectType(entry.template ?? {}, version, indent);
+			case "tuple":
+				//Tuple items can never be missing, as json arrays cannot contain undefined, so optional items are required as well.
+				return `[${(entry.items ?? []).map((item) => Typings.valueType(item.type.replace(/\?$/, ""), item, version, indent)).join(", ")}]`;
+			default:
+				//All other types are strings, including unknown types.
+				return "string";
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Block } from "./block";
+import { BlockHeader } from "./header";
+import { PublicKey } from "./key";
+import { StreamParser } from "./parser";
+import { ProcessorKeys } from "./rotation";
+
+/** Why and where verifying a chain failed. */
+export interface ChainFailure {
+	/** Why the block is not valid. */
+	reason: string;
+	/** The id of the block, undefined if the block could not be constructed. */
+	blockId: number | undefined;
+	/** Where the block starts, counted in bytes from the start of the verified blocks. */
+	offset: number;
+	/** The index of the transaction inside the block, if a transaction is not valid. */
+	transactionIndex?: number;
+}
+
+/** The result of verifying a chain. */
+export interface ChainReport {
+	/** Whether all blocks are valid. */
+	valid: boolean;
+	/** Amount of valid blocks. */
+	blocks: number;
+	/** Amount of transactions in the valid blocks. */
+	transactions: number;
+	/** The id of the last valid block, undefined if there is none. */
+	lastBlockId: number | undefined;
+	/** The first failure, undefined if all blocks are valid. */
+	failure?: ChainFailure;
+}
+
+/**
+ * Verify a whole chain (or part of it) at once, such as when a node database looks suspicious.
+ * Example: const report = await ChainVerifier.verify(signPrefix, processorKey, StreamParser.blocks().parse(fs.createReadStream(file)))
+ */
+export class ChainVerifier {
+	/**
+	 * Verify blocks one by one, stopping at the first block that is not valid.
+	 * Checks the ids, previous block hashes, processed timestamps, signatures, merkle roots and that all transactions can be constructed.
+	 * @param signPrefix The prefix to check against.
+	 * @param pubKey The public key of the processor, or the processor keys per block. Processor keys must already contain all rotations
+	 * before the first block and will contain the rotations in the valid blocks afterwards.
+	 * @param blocks The blocks in order of block id, or merged blocks (see Block.merge()).
+	 * @param previous The block (header) before the first block, if the first block is not the first block of the chain.
+	 */
+	public static async verify(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, blocks: Buffer | Iterable<Block> | AsyncIterable<Block>,
+		previous?: Block | BlockHeader): Promise<ChainReport> {
+
+		const report: ChainReport = { valid: true, blocks: 0, transactions: 0, lastBlockId: previous?.id };
+		let offset = 0;
+		try {
+			for await (const block of blocks instanceof Buffer ? StreamParser.blocks(blocks.length).parse([blocks]) : blocks) {
+				const failure = ChainVerifier.verifyBlock(signPrefix, pubKey, block, previous);
+				if (failure !== undefined) {
+					report.valid = false;
+					report.failure = { reason: failure.reason, blockId: block.id, offset };
+					if (failure.transactionIndex !== undefined) {
+						report.failure.transactionIndex = failure.transactionIndex;
+					}
+					return report;
+				}
+				if (pubKey instanceof ProcessorKeys) {
+					pubKey.processBlock(signPrefix, block);
+				}
+				report.blocks++;
+				report.transactions += block.transactionsAmount;
+				report.lastBlockId = block.id;
+				offset += block.data.length;
+				previous = block;
+			}
+		} catch (error) {
+			//The blocks themselves could not be retrieved or constructed.
+			report.valid = false;
+			report.failure = { reason: error.message, blockId: undefined, offset };
+		}
+		return report;
+	}
+
+	/** Verify a single block, returning why it is not valid or undefined if it is valid. */
+	private static verifyBlock(signPrefix: Buffer, pubKey: PublicKey | ProcessorKeys, block: Block,
+		previous: Block | BlockHeader | undefined): Pick<ChainFailure, "reason" | "transactionIndex"> | undefined {
+
+		if (!(block instanceof Block)) {
+			return { reason: "Not a block." };
+		}
+		if (block.id !== (previous === undefined ? 0 : previous.id + 1)) {
+			return { reason: "Block id does not follow the previous block." };
+		}
+		if (!block.getPreviousBlockHash().equals(previous === undefined ? Buffer.alloc(32) : previous.getHash(signPrefix))) {
+			return { reason: "Previous block hash does not match the previous block." };
+		}
+		if (previous !== undefined && block.processedTs <= previous.processedTs) {
+			return { reason: "Processed timestamp is not after the previous block." };
+		}
+		if (block.version !== 1 && !block.verifyMerkleRoot()) {
+			return { reason: "Merkle root does not match the transactions." };
+		}
+		if (!block.verifySignature(signPrefix, pubKey instanceof ProcessorKeys ? pubKey.getKey(block.id) : pubKey)) {
+			return { reason: "Invalid signature." };
+		}
+		for (let i = 0; i < block.transactionsAmount; i++) {
+			try {
+				block.getTransaction(i);
+			} catch (error) {
+				return { reason: `Invalid transaction: ${error.message}`, transactionIndex: i };
+			}
+		}
+		return undefined;
+	}
+}
\ No newline at end of file
@@ -8,9 +8,23 @@
 
 export { Crypto } from "./tools/crypto";
 export { Log, c } from "./tools/log";
+export { Merkle } from "./tools/merkle";
+export { Inflate } from "./tools/inflate";
 
-export { InitFunction, CodeFunction, Template, CreatePayload, DeletePayload, DatabaseClient, TxStatus, Contract, Basic, ContractVersion } from "./basics/basic";
-export { UnsignedBlock, DBBlock, Block } from "./basics/block";
-export { UnsignedTx, DBTransaction, Transaction } from "./basics/transaction";
+export { InitFunction, CodeFunction, Template, TemplateEntry, CreatePayload, DeletePayload, RotateKeyPayload, DatabaseClient, TxStatus,
+	Contract, Basic, ContractVersion } from "./basics/basic";
+export { UnsignedBlock, DBBlock, JSONBlock, Block } from "./basics/block";
+export { UnsignedBlockHeader, BlockHeader } from "./basics/header";
+export { InclusionProof } from "./basics/proof";
+export { EquivocationProof } from "./basics/equivocation";
+export { UnsignedTx, DBTransaction, PayloadEncoding, TxSignature, TemplateViolation, JSONTransaction, Transaction } from "./basics/transaction";
+export { TransactionBuilder } from "./basics/builder";
+export { EnvelopeSignature, TxEnvelope } from "./basics/envelope";
+export { StreamParser } from "./basics/parser";
+export { ChainFailure, ChainReport, ChainVerifier } from "./basics/verifier";
+export { BlockArchive } from "./basics/archive";
+export { ProcessorKeys } from "./basics/rotation";
 export { PublicKey, PrivateKey } from "./basics/key";
+export { JsonSchema, Schema } from "./basics/schema";
+export { Typings } from "./basics/typings";
 export { Sandbox } from "./basics/sandbox";
\ No newline at end of file
@@ -15,6 +15,8 @@ export class Crypto {
 	//And a map of characters to position in that string.
 	private static readonly base58map: { [key: string]: number } = Object.keys(Crypto.base58chars).reduce(
 		(obj: { [key: string]: number }, key) => (obj[Crypto.base58chars[Number.parseInt(key, 10)]] = Number.parseInt(key, 10), obj), {});
+	//Lone surrogates cannot be represented in utf8 and are thus not allowed in canonical json.
+	private static readonly loneSurrogateRegex = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
 
 	/** Calculate hash160 (ripemd160 of sha256) */
 	public static hash160(buffer: Buffer | string): Buffer {
@@ -206,6 +208,31 @@ export class Crypto {
 		return binary.toString("utf8");
 	}
 
+	/**
+	 * Serialize a json value with the JSON Canonicalization Scheme (RFC 8785), so equal values always result in the same text.
+	 * @throws if the value is not valid json, such as undefined, functions, non-finite numbers or strings with lone surrogates.
+	 */
+	public static toCanonicalJson(value: unknown): string {
+		if (value === null || typeof value === "boolean") {
+			return JSON.stringify(value);
+		} else if (typeof value === "number") {
+			if (!Number.isFinite(value)) {
+				throw new Error("Invalid json number.");
+			}
+			//Javascript serializes numbers as required (including -0 as 0).
+			return JSON.stringify(value);
+		} else if (typeof value === "string") {
+			return Crypto.toCanonicalString(value);
+		} else if (value instanceof Array) {
+			return `[${value.map((item) => Crypto.toCanonicalJson(item)).join(",")}]`;
+		} else if (typeof value === "object") {
+			//Keys are sorted by their utf16 code units, which is what sort() does by default.
+			const object = value as { [key: string]: unknown };
+			return `{${Object.keys(object).sort().map((key) => `${Crypto.toCanonicalString(key)}:${Crypto.toCanonicalJson(object[key])}`).join(",")}}`;
+		}
+		throw new Error("Invalid json value.");
+	}
+
 	/**
 	 * Turn a javascript number into binary data.
 	 * @throws if unsingedInt is not in the range 0-255
@@ -286,4 +313,15 @@ export class Crypto {
 		}
 		return result;
 	}
+
+	/**
+	 * Serialize a string for canonical json.
+	 * @throws if the string contains lone surrogates.
+	 */
+	private static toCanonicalString(text: string): string {
+		if (Crypto.loneSurrogateRegex.test(text)) {
+			throw new Error("Invalid json string.");
+		}
+		return JSON.stringify(text);
+	}
 }
\ No newline at end of file
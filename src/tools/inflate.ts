@@ -0,0 +1,270 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+/** A canonical huffman code: the amount of codes of each length and the symbols ordered by their code. */
+interface Huffman {
+	count: number[];
+	symbol: number[];
+}
+
+/**
+ * Decompress raw deflate data (RFC 1951), based on puff by Mark Adler.
+ * Unlike zlib in older node.js versions it stops once the decompressed data becomes too large,
+ * so compressed data cannot be used to exhaust memory. It also gives the same result in every node.js version.
+ */
+export class Inflate {
+	//Base values and extra bits for the length and distance symbols.
+	private static readonly lengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+	private static readonly lengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+	private static readonly distanceBase = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+		6145, 8193, 12289, 16385, 24577];
+	private static readonly distanceExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+	//The order in which the lengths of the code length code are stored.
+	private static readonly codeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+	//The code lengths used by blocks with fixed huffman codes.
+	private static readonly fixedLengths = Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8);
+	private static readonly fixedDistanceLengths = new Array<number>(30).fill(5);
+
+	private readonly data: Buffer;
+	private readonly maxLength: number;
+	//Where we are in the compressed data, including the bits of the last byte that were not used yet.
+	private position = 0;
+	private bitBuffer = 0;
+	private bitCount = 0;
+	//The decompressed data, which grows as needed till the maximum length.
+	private output: Buffer;
+	private outputLength = 0;
+
+	private constructor(data: Buffer, maxLength: number) {
+		this.data = data;
+		this.maxLength = maxLength;
+		this.output = Buffer.alloc(Math.min(maxLength, Math.max(data.length * 4, 1024)));
+	}
+
+	/**
+	 * Decompress raw deflate data, which may not be followed by other data.
+	 * @param data The compressed data.
+	 * @param maxLength The maximum length of the decompressed data.
+	 * @throws RangeError if the decompressed data is longer than the maximum length, Error if the compressed data is invalid.
+	 */
+	public static inflateRaw(data: Buffer, maxLength: number): Buffer {
+		const inflate = new Inflate(data, maxLength);
+		let isLast: boolean;
+		do {
+			isLast = inflate.bits(1) === 1;
+			const type = inflate.bits(2);
+			if (type === 0) {
+				inflate.stored();
+			} else if (type === 1) {
+				inflate.codes(Inflate.construct(Inflate.fixedLengths).code, Inflate.construct(Inflate.fixedDistanceLengths).code);
+			} else if (type === 2) {
+				inflate.dynamic();
+			} else {
+				throw new Error("Invalid block type.");
+			}
+		} while (!isLast);
+
+		//Only the unused bits of the last byte may remain.
+		if (inflate.position !== data.length) {
+			throw new Error("Data after end of compressed data.");
+		}
+		return inflate.output.slice(0, inflate.outputLength);
+	}
+
+	/**
+	 * Construct a canonical huffman code from the length of the code of each symbol (0 if it is not used).
+	 * Returns how many codes are left: negative if it is over-subscribed, positive if it is incomplete.
+	 */
+	private static construct(lengths: number[]): { code: Huffman; left: number } {
+		const code: Huffman = { count: new Array<number>(16).fill(0), symbol: new Array<number>(lengths.length).fill(0) };
+		for (const length of lengths) {
+			code.count[length]++;
+		}
+		//Without any codes it is complete, but decoding will fail.
+		if (code.count[0] === lengths.length) {
+			return { code, left: 0 };
+		}
+		let left = 1;
+		for (let length = 1; length < 16; length++) {
+			left = (left << 1) - code.count[length];
+			if (left < 0) {
+				return { code, left };
+			}
+		}
+		//Sort the symbols by length and then by symbol.
+		const offsets = [0, 0];
+		for (let length = 1; length < 15; length++) {
+			offsets[length + 1] = offsets[length] + code.count[length];
+		}
+		for (let symbol = 0; symbol < lengths.length; symbol++) {
+			if (lengths[symbol] !== 0) {
+				code.symbol[offsets[lengths[symbol]]++] = symbol;
+			}
+		}
+		return { code, left };
+	}
+
+	/** Get the next bits of the compressed data, starting with the least significant bit. */
+	private bits(amount: number): number {
+		let value = this.bitBuffer;
+		while (this.bitCount < amount) {
+			if (this.position >= this.data.length) {
+				throw new Error("Unexpected end of compressed data.");
+			}
+			value |= this.data[this.position++] << this.bitCount;
+			this.bitCount += 8;
+		}
+		this.bitBuffer = value >>> amount;
+		this.bitCount -= amount;
+		return value & ((1 << amount) - 1);
+	}
+
+	/** Make room to add an amount of bytes to the decompressed data. */
+	private reserve(amount: number): void {
+		if (this.outputLength + amount > this.maxLength) {
+			throw new RangeError("Decompressed data too large.");
+		}
+		if (this.outputLength + amount > this.output.length) {
+			const output = Buffer.alloc(Math.min(this.maxLength, Math.max(this.output.length * 2, this.outputLength + amount)));
+			this.output.copy(output, 0, 0, this.outputLength);
+			this.output = output;
+		}
+	}
+
+	/** Decode a symbol using a huffman code, where the bits of a code are stored starting with the most significant bit. */
+	private decode(code: Huffman): number {
+		let value = 0;
+		let first = 0;
+		let index = 0;
+		for (let length = 1; length < 16; length++) {
+			value |= this.bits(1);
+			const count = code.count[length];
+			if (value - count < first) {
+				return code.symbol[index + value - first];
+			}
+			index += count;
+			first = (first + count) << 1;
+			value <<= 1;
+		}
+		throw new Error("Invalid huffman code.");
+	}
+
+	/** Copy a stored block, which starts at the next byte. */
+	private stored(): void {
+		this.bitBuffer = 0;
+		this.bitCount = 0;
+		if (this.position + 4 > this.data.length) {
+			throw new Error("Unexpected end of compressed data.");
+		}
+		const length = this.data.readUInt16LE(this.position);
+		if (this.data.readUInt16LE(this.position + 2) !== (~length & 0xFFFF)) {
+			throw new Error("Invalid stored block length.");
+		}
+		this.position += 4;
+		if (this.position + length > this.data.length) {
+			throw new Error("Unexpected end of compressed data.");
+		}
+		this.reserve(length);
+		this.data.copy(this.output, this.outputLength, this.position, this.position + length);
+		this.outputLength += length;
+		this.position += length;
+	}
+
+	/** Decode a block with dynamic huffman codes, which are stored at the start of the block. */
+	private dynamic(): void {
+		const lengthCount = this.bits(5) + 257;
+		const distanceCount = this.bits(5) + 1;
+		const codeLengthCount = this.bits(4) + 4;
+		if (lengthCount > 286 || distanceCount > 30) {
+			throw new Error("Invalid amount of codes.");
+		}
+
+		//The code lengths of both codes are themselves stored using a huffman code, which must be complete.
+		const codeLengthLengths = new Array<number>(19).fill(0);
+		for (let i = 0; i < codeLengthCount; i++) {
+			codeLengthLengths[Inflate.codeLengthOrder[i]] = this.bits(3);
+		}
+		const codeLengthCode = Inflate.construct(codeLengthLengths);
+		if (codeLengthCode.left !== 0) {
+			throw new Error("Invalid code length code.");
+		}
+		const lengths: number[] = [];
+		while (lengths.length < lengthCount + distanceCount) {
+			const symbol = this.decode(codeLengthCode.code);
+			if (symbol < 16) {
+				lengths.push(symbol);
+			} else {
+				let length = 0;
+				let repeat: number;
+				if (symbol === 16) {
+					if (lengths.length === 0) {
+						throw new Error("No code length to repeat.");
+					}
+					length = lengths[lengths.length - 1];
+					repeat = 3 + this.bits(2);
+				} else if (symbol === 17) {
+					repeat = 3 + this.bits(3);
+				} else {
+					repeat = 11 + this.bits(7);
+				}
+				if (lengths.length + repeat > lengthCount + distanceCount) {
+					throw new Error("Too many code lengths.");
+				}
+				for (let i = 0; i < repeat; i++) {
+					lengths.push(length);
+				}
+			}
+		}
+		if (lengths[256] === 0) {
+			throw new Error("Missing end of block code.");
+		}
+
+		//Incomplete codes are only allowed if they consist of a single code.
+		const lengthCode = Inflate.construct(lengths.slice(0, lengthCount));
+		if (lengthCode.left < 0 || lengthCode.left > 0 && lengthCount !== lengthCode.code.count[0] + lengthCode.code.count[1]) {
+			throw new Error("Invalid literal/length code.");
+		}
+		const distanceCode = Inflate.construct(lengths.slice(lengthCount));
+		if (distanceCode.left < 0 || distanceCode.left > 0 && distanceCount !== distanceCode.code.count[0] + distanceCode.code.count[1]) {
+			throw new Error("Invalid distance code.");
+		}
+		this.codes(lengthCode.code, distanceCode.code);
+	}
+
+	/** Decode the literals and length/distance pairs of a block till the end of the block. */
+	private codes(lengthCode: Huffman, distanceCode: Huffman): void {
+		let symbol = this.decode(lengthCode);
+		while (symbol !== 256) {
+			if (symbol < 256) {
+				this.reserve(1);
+				this.output[this.outputLength++] = symbol;
+			} else {
+				const lengthSymbol = symbol - 257;
+				if (lengthSymbol >= 29) {
+					throw new Error("Invalid length symbol.");
+				}
+				const length = Inflate.lengthBase[lengthSymbol] + this.bits(Inflate.lengthExtra[lengthSymbol]);
+				const distanceSymbol = this.decode(distanceCode);
+				if (distanceSymbol >= 30) {
+					throw new Error("Invalid distance symbol.");
+				}
+				const distance = Inflate.distanceBase[distanceSymbol] + this.bits(Inflate.distanceExtra[distanceSymbol]);
+				if (distance > this.outputLength) {
+					throw new Error("Distance too far back.");
+				}
+				//Copy byte by byte, as the copy may overlap with itself.
+				this.reserve(length);
+				for (let i = 0; i < length; i++) {
+					this.output[this.outputLength] = this.output[this.outputLength - distance];
+					this.outputLength++;
+				}
+			}
+			symbol = this.decode(lengthCode);
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto } from "./crypto";
+
+/**
+ * Merkle trees as described in RFC 6962 (but using hash256), which has a prefix to distinguish leaves from nodes
+ * and does not duplicate the last leaf of an uneven level, so different lists of leaves never result in the same root.
+ */
+export class Merkle {
+	//Prefixes to distinguish between leaves and nodes.
+	private static readonly leafPrefix = Buffer.from([0]);
+	private static readonly nodePrefix = Buffer.from([1]);
+
+	/**
+	 * Calculate the hash of a leaf.
+	 * @param data The data of the leaf.
+	 */
+	public static hashLeaf(data: Buffer): Buffer {
+		return Crypto.hash256(Buffer.concat([Merkle.leafPrefix, data]));
+	}
+
+	/**
+	 * Calculate the merkle root.
+	 * @param leafHashes The hashes of all leaves, see hashLeaf().
+	 */
+	public static getRoot(leafHashes: Buffer[]): Buffer {
+		if (leafHashes.length === 0) {
+			return Crypto.hash256(Buffer.alloc(0));
+		}
+		return Merkle.getSubtreeRoot(leafHashes, 0, leafHashes.length);
+	}
+
+	/**
+	 * Get the proof that a leaf is part of the tree: the hashes needed to calculate the root, starting at the leaf.
+	 * @param leafHashes The hashes of all leaves, see hashLeaf().
+	 * @param index The index of the leaf to create a proof for.
+	 * @throws If the index is invalid.
+	 */
+	public static getProof(leafHashes: Buffer[], index: number): Buffer[] {
+		if (!Number.isInteger(index) || index < 0 || index >= leafHashes.length) {
+			throw new Error("Invalid leaf index.");
+		}
+		const proof: Buffer[] = [];
+		let start = 0;
+		let end = leafHashes.length;
+		//Go from the root down to the leaf, adding the hash of the other side at every level.
+		while (end - start > 1) {
+			const split = start + Merkle.getSplit(end - start);
+			if (index < split) {
+				proof.push(Merkle.getSubtreeRoot(leafHashes, split, end));
+				end = split;
+			} else {
+				proof.push(Merkle.getSubtreeRoot(leafHashes, start, split));
+				start = split;
+			}
+		}
+		return proof.reverse();
+	}
+
+	/**
+	 * Calculate the root from a leaf and the proof that it is part of the tree.
+	 * @param leafHash The hash of the leaf, see hashLeaf().
+	 * @param index The index of the leaf.
+	 * @param size The amount of leaves in the tree.
+	 * @param proof The proof, see getProof().
+	 * @throws If the index, size or length of the proof are invalid.
+	 */
+	public static getRootFromProof(leafHash: Buffer, index: number, size: number, proof: Buffer[]): Buffer {
+		if (!Number.isSafeInteger(size) || !Number.isInteger(index) || index < 0 || index >= size) {
+			throw new Error("Invalid leaf index.");
+		}
+		//See RFC 9162 section 2.1.3.2.
+		let fn = index;
+		let sn = size - 1;
+		let result = leafHash;
+		for (const hash of proof) {
+			if (sn === 0) {
+				throw new Error("Invalid proof length.");
+			}
+			if (fn % 2 === 1 || fn === sn) {
+				result = Merkle.hashNode(hash, result);
+				while (fn % 2 === 0 && fn !== 0) {
+					fn = Math.floor(fn / 2);
+					sn = Math.floor(sn / 2);
+				}
+			} else {
+				result = Merkle.hashNode(result, hash);
+			}
+			fn = Math.floor(fn / 2);
+			sn = Math.floor(sn / 2);
+		}
+		if (sn !== 0) {
+			throw new Error("Invalid proof length.");
+		}
+		return result;
+	}
+
+	/**
+	 * Verify that a leaf is part of the tree with the given root.
+	 * @param root The merkle root.
+	 * @param leafHash The hash of the leaf, see hashLeaf().
+	 * @param index The index of the leaf.
+	 * @param size The amount of leaves in the tree.
+	 * @param proof The proof, see getProof().
+	 */
+	public static verifyProof(root: Buffer, leafHash: Buffer, index: number, size: number, proof: Buffer[]): boolean {
+		try {
+			return Merkle.getRootFromProof(leafHash, index, size, proof).equals(root);
+		} catch (error) {
+			return false;
+		}
+	}
+
+	/**
+	 * Calculate the hash of a node.
+	 * @param left The hash of the left child.
+	 * @param right The hash of the right child.
+	 */
+	private static hashNode(left: Buffer, right: Buffer): Buffer {
+		return Crypto.hash256(Buffer.concat([Merkle.nodePrefix, left, right]));
+	}
+
+	/** Get the largest power of 2 smaller than length, which is where a subtree is split. */
+	private static getSplit(length: number): number {
+		let split = 1;
+		while (split * 2 < length) {
+			split *= 2;
+		}
+		return split;
+	}
+
+	/** Calculate the root of the subtree with the leaves from start (inclusive) till end (exclusive). */
+	private static getSubtreeRoot(leafHashes: Buffer[], start: number, end: number): Buffer {
+		if (end - start === 1) {
+			return leafHashes[start];
+		}
+		const split = start + Merkle.getSplit(end - start);
+		return Merkle.hashNode(Merkle.getSubtreeRoot(leafHashes, start, split), Merkle.getSubtreeRoot(leafHashes, split, end));
+	}
+}
\ No newline at end of file